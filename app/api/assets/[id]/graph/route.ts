@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAssetGraph } from '@/lib/storage/assets';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const graph = getAssetGraph(params.id);
+    if (!graph) {
+      return NextResponse.json(
+        { error: 'Asset not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(graph);
+  } catch (error) {
+    console.error('Asset graph error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
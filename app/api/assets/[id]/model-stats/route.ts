@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { getAsset, updateAssetMetadata } from '@/lib/storage/assets';
+import { computeModelStats } from '@/lib/utils/modelStatsUtils';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const asset = getAsset(params.id);
+    if (!asset || asset.type !== 'model') {
+      return NextResponse.json(
+        { error: 'Model asset not found' },
+        { status: 404 }
+      );
+    }
+
+    // Stats are cached in the asset metadata; ?refresh=true recomputes them
+    const refresh = request.nextUrl.searchParams.get('refresh') === 'true';
+    if (asset.metadata.modelStats && !refresh) {
+      return NextResponse.json({ stats: asset.metadata.modelStats, cached: true });
+    }
+
+    const modelPath = join(process.cwd(), 'public', asset.path);
+    if (!existsSync(modelPath)) {
+      return NextResponse.json(
+        { error: 'Model file not found' },
+        { status: 404 }
+      );
+    }
+
+    const stats = await computeModelStats(modelPath);
+    updateAssetMetadata(asset.id, { modelStats: stats });
+
+    return NextResponse.json({ stats, cached: false });
+  } catch (error) {
+    console.error('Model stats error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { listAssets, deleteAsset, getAsset, getAssetLineage, AssetType } from '@/lib/storage/assets';
+import {
+  listAssets,
+  listDuplicateGroups,
+  deleteAsset,
+  getAsset,
+  getAssetLineage,
+  AssetType,
+} from '@/lib/storage/assets';
 
 export async function GET(request: NextRequest) {
   try {
@@ -8,6 +15,10 @@ export async function GET(request: NextRequest) {
     const search = searchParams.get('search');
     const id = searchParams.get('id');
 
+    if (searchParams.get('duplicates') === 'true') {
+      return NextResponse.json({ groups: listDuplicateGroups() });
+    }
+
     if (id) {
       const asset = getAsset(id);
       if (!asset) {
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { saveAsset } from '@/lib/storage/assets';
+import { saveAsset, createProvenance } from '@/lib/storage/assets';
 
 export async function POST(request: NextRequest) {
   try {
+    const startedAt = new Date();
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
 
@@ -39,6 +40,7 @@ export async function POST(request: NextRequest) {
         originalName: file.name,
         fileSize: file.size,
       },
+      provenance: createProvenance(startedAt, {}),
     });
 
     return NextResponse.json({
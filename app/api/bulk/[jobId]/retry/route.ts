@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, isTerminalStatus } from '@/lib/storage/jobs';
+import { retryFailedItems } from '@/lib/jobs/queue';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const job = getJob(params.jobId);
+    if (!job || job.type !== 'bulk') {
+      return NextResponse.json(
+        { error: 'Bulk job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!isTerminalStatus(job.status)) {
+      return NextResponse.json(
+        { error: 'Bulk job is still running' },
+        { status: 409 }
+      );
+    }
+
+    const retried = retryFailedItems(job.id);
+    if (retried === 0) {
+      return NextResponse.json(
+        { error: 'No failed items to retry' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, jobId: job.id, retried, job: getJob(job.id) },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Bulk retry error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
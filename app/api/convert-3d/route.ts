@@ -1,20 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { trellisService } from '@/lib/services';
-import { saveModel, getAsset } from '@/lib/storage/assets';
-import { createJob, updateJob } from '@/lib/storage/jobs';
+import { imageTo3DProviders, ServiceError } from '@/lib/services';
+import {
+  saveModel,
+  getAsset,
+  getLocalImageInfo,
+  findAssetByUrl,
+  createProvenance,
+} from '@/lib/storage/assets';
+import { createJob, updateJob, subscribeToJob, isTerminalStatus } from '@/lib/storage/jobs';
+import { computeCacheKey, getCachedResult, cacheResult } from '@/lib/storage/cache';
+import { runJobInBackground, JobHandler } from '@/lib/jobs/runner';
+import { updateParentProgress } from '@/lib/jobs/queue';
+import {
+  MAX_VARIANTS,
+  GRID_SETTINGS,
+  VariantGrid,
+  countVariants,
+  expandVariants,
+  isGridSetting,
+} from '@/lib/jobs/variants';
 import { getBaseUrl } from '@/lib/utils';
 import { TrellisSettings } from '@/lib/services/base';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { imageUrls, imageUrl, assetId, settings } = body as {
+    const { imageUrls, imageUrl, assetId, settings, provider, force, variants, seeds, grid } = body as {
       imageUrls?: string[];
       imageUrl?: string;
       assetId?: string;
       settings?: TrellisSettings;
+      provider?: string;
+      force?: boolean;
+      variants?: number;
+      seeds?: number[];
+      grid?: VariantGrid;
     };
 
+    if (provider && !imageTo3DProviders.has(provider)) {
+      return NextResponse.json(
+        { error: `Unknown image-to-3D provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+    const modelProvider = imageTo3DProviders.get(provider);
+
     // Support multiple input methods
     let sourceUrls: string[] = [];
     let sourceAssetIds: string[] = [];
@@ -31,10 +61,8 @@ export async function POST(request: NextRequest) {
       sourceAssetIds = [asset.id];
     } else if (imageUrls && imageUrls.length > 0) {
       sourceUrls = imageUrls;
-      sourceAssetIds = [];
     } else if (imageUrl) {
       sourceUrls = [imageUrl];
-      sourceAssetIds = [];
     } else {
       return NextResponse.json(
         { error: 'Either imageUrls, imageUrl, or assetId is required' },
@@ -42,56 +70,251 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const job = createJob('convert-3d', {
+    // Local URLs map back to the assets they serve, so the model keeps its lineage
+    if (sourceAssetIds.length === 0) {
+      sourceAssetIds = sourceUrls
+        .map((url) => findAssetByUrl(url)?.id)
+        .filter((id): id is string => id !== undefined);
+    }
+
+    if (sourceUrls.length > 1 && !modelProvider.capabilities.multiView) {
+      return NextResponse.json(
+        { error: `Provider ${modelProvider.name} does not support multi-view input` },
+        { status: 400 }
+      );
+    }
+
+    // Opaque inputs keep their backdrop, which usually ends up baked into the mesh
+    const opaqueInputs = sourceUrls.filter((url) => getLocalImageInfo(url)?.hasAlpha === false);
+    const warnings =
+      opaqueInputs.length > 0
+        ? [
+            sourceUrls.length > 1
+              ? `${opaqueInputs.length} of ${sourceUrls.length} input images have no alpha channel; remove their backgrounds first for a cleaner model`
+              : 'The input image has no alpha channel; remove its background first for a cleaner model',
+          ]
+        : undefined;
+
+    if (variants !== undefined && !(Number.isInteger(variants) && variants >= 1)) {
+      return NextResponse.json(
+        { error: 'variants must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      seeds !== undefined &&
+      !(Array.isArray(seeds) && seeds.length > 0 && seeds.every((seed) => Number.isInteger(seed) && seed >= 0))
+    ) {
+      return NextResponse.json(
+        { error: 'seeds must be a non-empty array of non-negative integers' },
+        { status: 400 }
+      );
+    }
+
+    if ((variants !== undefined || seeds !== undefined) && !modelProvider.capabilities.seed) {
+      return NextResponse.json(
+        { error: `Provider ${modelProvider.name} does not support seeds` },
+        { status: 400 }
+      );
+    }
+
+    if (grid !== undefined) {
+      if (!modelProvider.capabilities.settings) {
+        return NextResponse.json(
+          { error: `Provider ${modelProvider.name} does not accept settings to sweep` },
+          { status: 400 }
+        );
+      }
+
+      const invalidKey =
+        typeof grid !== 'object' || Array.isArray(grid)
+          ? 'grid'
+          : Object.entries(grid).find(
+              ([key, values]) =>
+                !isGridSetting(key) ||
+                !Array.isArray(values) ||
+                values.length === 0 ||
+                !values.every((value) => typeof value === 'number' && Number.isFinite(value))
+            )?.[0];
+      if (invalidKey) {
+        return NextResponse.json(
+          {
+            error: `Invalid grid entry: ${invalidKey}. Grid keys must be one of ${GRID_SETTINGS.join(', ')} with a non-empty array of numbers`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const variantOptions = { variants, seeds, grid };
+    const variantCount = countVariants(variantOptions);
+    if (variantCount > MAX_VARIANTS) {
+      return NextResponse.json(
+        { error: `Too many variants: ${variantCount}. At most ${MAX_VARIANTS} are allowed` },
+        { status: 400 }
+      );
+    }
+
+    // Settings are provider-specific knobs; drop them for providers without any
+    const providerSettings = modelProvider.capabilities.settings ? settings : undefined;
+
+    const jobInput = {
       imageUrls: sourceUrls,
       assetIds: sourceAssetIds,
-      settings: settings as Record<string, unknown>,
-    });
+      provider: modelProvider.name,
+      force: force === true,
+    };
+
+    const convert = (jobId: string, jobSettings: TrellisSettings | undefined): JobHandler => async ({
+      signal,
+      onProgress,
+    }) => {
+      const startedAt = new Date();
+      const cacheKey = await computeCacheKey(
+        {
+          operation: 'convert-3d',
+          provider: modelProvider.name,
+          imageUrls: sourceUrls,
+          settings: jobSettings,
+          random: modelProvider.capabilities.seed,
+        },
+        signal
+      );
+      const cached = force === true ? null : getCachedResult(cacheKey);
+      if (cached) {
+        return {
+          message: 'Reused cached 3D model',
+          output: {
+            modelPath: cached.asset.path,
+            assetId: cached.asset.id,
+            cacheHit: true,
+            cachedFromJobId: cached.jobId,
+            seed: cached.asset.provenance?.seed,
+            warnings,
+          },
+        };
+      }
 
-    updateJob(job.id, { status: 'processing', progress: 10, message: 'Starting 3D conversion...' });
+      const result = await modelProvider.convertTo3D(
+        { imageUrls: sourceUrls, settings: jobSettings },
+        onProgress,
+        signal
+      );
 
-    const result = await trellisService.convertTo3D(
-      { imageUrls: sourceUrls, settings },
-      (progress, message) => {
-        updateJob(job.id, { progress, message });
+      if (!result.success || !result.data) {
+        throw ServiceError.fromResult(result, 'Failed to convert to 3D');
       }
-    );
 
-    if (!result.success || !result.data) {
-      updateJob(job.id, {
-        status: 'failed',
-        progress: 100,
-        message: result.error || 'Failed to convert to 3D',
-        output: { error: result.error },
+      const modelAsset = await saveModel(result.data.modelUrl, {
+        sourceAssetIds,
+        provenance: createProvenance(startedAt, {
+          jobId,
+          provider: modelProvider.name,
+          model: modelProvider.model,
+          settings: jobSettings as Record<string, unknown>,
+          seed: result.data.seed,
+          request: {
+            endpoint: '/api/convert-3d',
+            body: {
+              ...(assetId ? { assetId } : { imageUrls: sourceUrls }),
+              settings: jobSettings,
+              provider: modelProvider.name,
+            },
+          },
+        }),
       });
+
+      cacheResult(cacheKey, {
+        operation: 'convert-3d',
+        provider: modelProvider.name,
+        assetId: modelAsset.id,
+        jobId,
+      });
+
+      return {
+        message: '3D model generated successfully',
+        output: {
+          modelPath: modelAsset.path,
+          assetId: modelAsset.id,
+          seed: result.data.seed,
+          warnings,
+        },
+      };
+    };
+
+    const sweep = variants !== undefined || seeds !== undefined || grid !== undefined;
+    if (!sweep) {
+      const job = createJob('convert-3d', {
+        ...jobInput,
+        settings: providerSettings as Record<string, unknown>,
+      });
+      const runningJob = runJobInBackground(
+        job.id,
+        convert(job.id, providerSettings),
+        'Starting 3D conversion...'
+      );
+
       return NextResponse.json(
-        { error: result.error || 'Failed to convert to 3D', jobId: job.id },
-        { status: 500 }
+        { success: true, jobId: job.id, job: runningJob, warnings },
+        { status: 202 }
       );
     }
 
-    const modelAsset = await saveModel(result.data.modelUrl, {
-      sourceAssetId: sourceAssetIds[0],
+    // Each variant is a child job; the parent collects their models as results
+    const variantSettings = expandVariants(providerSettings, variantOptions);
+    const parentJob = createJob('convert-3d', {
+      ...jobInput,
+      settings: providerSettings as Record<string, unknown>,
+      options: { variants: variantSettings.length },
     });
 
-    updateJob(job.id, {
-      status: 'completed',
-      progress: 100,
-      message: '3D model generated successfully',
-      output: { modelPath: modelAsset.path, assetId: modelAsset.id },
+    const children = variantSettings.map((variant, index) => {
+      const childSettings: TrellisSettings = { ...providerSettings, ...variant };
+      const child = createJob(
+        'convert-3d',
+        {
+          ...jobInput,
+          settings: childSettings as Record<string, unknown>,
+          options: { index, variant },
+        },
+        parentJob.id
+      );
+      return { child, childSettings };
+    });
+
+    const job = updateJob(parentJob.id, {
+      status: 'processing',
+      progress: 0,
+      message: `Generating ${children.length} variants...`,
     });
 
-    return NextResponse.json({
-      success: true,
-      jobId: job.id,
-      modelPath: modelAsset.path,
-      asset: modelAsset,
+    children.forEach(({ child, childSettings }, index) => {
+      const unsubscribe = subscribeToJob(child.id, (updated) => {
+        if (isTerminalStatus(updated.status)) {
+          unsubscribe();
+          updateParentProgress(parentJob.id);
+        }
+      });
+      runJobInBackground(
+        child.id,
+        convert(child.id, childSettings),
+        `Starting variant ${index + 1} of ${children.length}...`
+      );
     });
+
+    return NextResponse.json(
+      { success: true, jobId: parentJob.id, job, warnings },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Convert 3D error:', error);
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Internal server error' },
-      { status: 500 }
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        code: error instanceof ServiceError ? error.code : undefined,
+      },
+      { status: error instanceof ServiceError ? error.status : 500 }
     );
   }
 }
@@ -1,17 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { geminiService } from '@/lib/services';
-import { saveAsset, getAsset } from '@/lib/storage/assets';
-import { createJob, updateJob } from '@/lib/storage/jobs';
+import { imageGenerationProviders, ServiceError } from '@/lib/services';
+import { saveAsset, getAsset, createProvenance } from '@/lib/storage/assets';
+import { createJob } from '@/lib/storage/jobs';
+import { runJobInBackground } from '@/lib/jobs/runner';
 import { getBaseUrl } from '@/lib/utils';
 import { GeminiSettings } from '@/lib/services/base';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { prompt, sourceImageId, settings } = body as {
+    const { prompt, sourceImageId, settings, provider } = body as {
       prompt?: string;
       sourceImageId?: string;
       settings?: GeminiSettings;
+      provider?: string;
     };
 
     if (!prompt) {
@@ -36,67 +38,79 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (provider && !imageGenerationProviders.has(provider)) {
+      return NextResponse.json(
+        { error: `Unknown image generation provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+    const imageProvider = imageGenerationProviders.get(provider);
+    if (!imageProvider.enhanceImage) {
+      return NextResponse.json(
+        { error: `Provider ${imageProvider.name} does not support image editing` },
+        { status: 400 }
+      );
+    }
+    const enhanceImage = imageProvider.enhanceImage.bind(imageProvider);
+
     const job = createJob('generate', {
       prompt,
+      provider: imageProvider.name,
       options: { sourceImageId },
       settings: settings as Record<string, unknown>,
     });
 
-    updateJob(job.id, {
-      status: 'processing',
-      progress: 10,
-      message: 'Starting image edit...',
-    });
-
     // Get the source image URL
     const imageUrl = `${getBaseUrl()}${sourceAsset.path}`;
 
-    const result = await geminiService.enhanceImage(
-      { imageUrl, prompt },
-      (progress, message) => {
-        updateJob(job.id, { progress, message });
-      }
-    );
-
-    if (!result.success || !result.data) {
-      updateJob(job.id, {
-        status: 'failed',
-        progress: 100,
-        message: result.error || 'Failed to edit image',
-        output: { error: result.error },
-      });
-      return NextResponse.json(
-        { error: result.error || 'Failed to edit image', jobId: job.id },
-        { status: 500 }
+    const runningJob = runJobInBackground(job.id, async ({ signal, onProgress }) => {
+      const startedAt = new Date();
+      const result = await enhanceImage(
+        { imageUrl, prompt },
+        onProgress,
+        signal
       );
-    }
 
-    // Convert base64 to asset
-    const imageData = `data:${result.data.mimeType};base64,${result.data.imageData}`;
+      if (!result.success || !result.data) {
+        throw ServiceError.fromResult(result, 'Failed to edit image');
+      }
 
-    const asset = await saveAsset('generated', imageData, {
-      prompt,
-      sourceAssetId: sourceImageId,
-    });
+      // Convert base64 to asset
+      const imageData = `data:${result.data.mimeType};base64,${result.data.imageData}`;
 
-    updateJob(job.id, {
-      status: 'completed',
-      progress: 100,
-      message: 'Image edited successfully',
-      output: { assetPath: asset.path, assetId: asset.id },
-    });
+      const asset = await saveAsset('generated', imageData, {
+        prompt,
+        sourceAssetId: sourceImageId,
+        provenance: createProvenance(startedAt, {
+          jobId: job.id,
+          provider: imageProvider.name,
+          model: imageProvider.model,
+          settings: settings as Record<string, unknown>,
+          request: {
+            endpoint: '/api/edit-image',
+            body: { prompt, sourceImageId, settings, provider: imageProvider.name },
+          },
+        }),
+      });
 
-    return NextResponse.json({
-      success: true,
-      jobId: job.id,
-      imagePath: asset.path,
-      asset,
-    });
+      return {
+        message: 'Image edited successfully',
+        output: { assetPath: asset.path, assetId: asset.id },
+      };
+    }, 'Starting image edit...');
+
+    return NextResponse.json(
+      { success: true, jobId: job.id, job: runningJob },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Edit image error:', error);
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Internal server error' },
-      { status: 500 }
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        code: error instanceof ServiceError ? error.code : undefined,
+      },
+      { status: error instanceof ServiceError ? error.status : 500 }
     );
   }
 }
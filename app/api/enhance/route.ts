@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { geminiService } from '@/lib/services';
-import { saveAsset, getAsset } from '@/lib/storage/assets';
-import { createJob, updateJob } from '@/lib/storage/jobs';
+import { imageGenerationProviders, ServiceError } from '@/lib/services';
+import { saveAsset, getAsset, createProvenance } from '@/lib/storage/assets';
+import { createJob } from '@/lib/storage/jobs';
+import { runJobInBackground } from '@/lib/jobs/runner';
 import { getBaseUrl } from '@/lib/utils';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { assetId, imageUrl, prompt } = body;
+    const { assetId, imageUrl, prompt, provider } = body;
 
     let sourceUrl: string;
     let sourceAssetId: string | undefined;
@@ -33,62 +34,78 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (provider && !imageGenerationProviders.has(provider)) {
+      return NextResponse.json(
+        { error: `Unknown image generation provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+    const imageProvider = imageGenerationProviders.get(provider);
+    if (!imageProvider.enhanceImage) {
+      return NextResponse.json(
+        { error: `Provider ${imageProvider.name} does not support image editing` },
+        { status: 400 }
+      );
+    }
+    const enhanceImage = imageProvider.enhanceImage.bind(imageProvider);
+
     const job = createJob('generate', {
       imageUrl: sourceUrl,
       assetId: sourceAssetId,
       prompt,
+      provider: imageProvider.name,
       options: { type: 'enhance' },
     });
 
-    updateJob(job.id, { status: 'processing', progress: 10, message: 'Starting image enhancement...' });
+    const runningJob = runJobInBackground(job.id, async ({ signal, onProgress }) => {
+      const startedAt = new Date();
+      const result = await enhanceImage(
+        { imageUrl: sourceUrl, prompt },
+        onProgress,
+        signal
+      );
 
-    const result = await geminiService.enhanceImage(
-      { imageUrl: sourceUrl, prompt },
-      (progress, message) => {
-        updateJob(job.id, { progress, message });
+      if (!result.success || !result.data) {
+        throw ServiceError.fromResult(result, 'Failed to enhance image');
       }
-    );
 
-    if (!result.success || !result.data) {
-      updateJob(job.id, {
-        status: 'failed',
-        progress: 100,
-        message: result.error || 'Failed to enhance image',
-        output: { error: result.error },
+      const asset = await saveAsset('generated', result.data.imageData, {
+        prompt: prompt || 'Enhanced image',
+        sourceAssetId,
+        metadata: {},
+        provenance: createProvenance(startedAt, {
+          jobId: job.id,
+          provider: imageProvider.name,
+          model: imageProvider.model,
+          request: {
+            endpoint: '/api/enhance',
+            body: {
+              ...(sourceAssetId ? { assetId: sourceAssetId } : { imageUrl: sourceUrl }),
+              prompt,
+              provider: imageProvider.name,
+            },
+          },
+        }),
       });
-      return NextResponse.json(
-        { error: result.error || 'Failed to enhance image', jobId: job.id },
-        { status: 500 }
-      );
-    }
 
-    const asset = await saveAsset('generated', result.data.imageData, {
-      prompt: prompt || 'Enhanced image',
-      sourceAssetId,
-      metadata: {},
-    });
-
-    updateJob(job.id, {
-      status: 'completed',
-      progress: 100,
-      message: 'Image enhanced successfully',
-      output: { assetId: asset.id, assetPath: asset.path },
-    });
+      return {
+        message: 'Image enhanced successfully',
+        output: { assetId: asset.id, assetPath: asset.path },
+      };
+    }, 'Starting image enhancement...');
 
-    return NextResponse.json({
-      success: true,
-      jobId: job.id,
-      asset: {
-        id: asset.id,
-        path: asset.path,
-        type: asset.type,
-      },
-    });
+    return NextResponse.json(
+      { success: true, jobId: job.id, job: runningJob },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Enhance error:', error);
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Internal server error' },
-      { status: 500 }
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        code: error instanceof ServiceError ? error.code : undefined,
+      },
+      { status: error instanceof ServiceError ? error.status : 500 }
     );
   }
 }
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exportModel } from '@/lib/converters/exporters';
+import { EXPORT_FORMATS, isExportFormat } from '@/lib/converters/formats';
+import {
+  COMPRESSION_TIERS,
+  TextureSettings,
+  TEXTURE_FORMATS,
+  isCompressionLevel,
+  isTextureFormat,
+} from '@/lib/utils/estimationUtils';
+import JSZip from 'jszip';
+import { existsSync } from 'fs';
+import * as path from 'path';
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      modelId,
+      format,
+      compressionLevel = 'full',
+      textures: textureOverrides = {},
+    } = await request.json();
+
+    if (!modelId) {
+      return NextResponse.json(
+        { error: 'modelId is required' },
+        { status: 400 }
+      );
+    }
+
+    // Security validation: prevent directory traversal attacks
+    if (modelId.includes('..') || modelId.includes('/') || modelId.includes('\\')) {
+      return NextResponse.json(
+        { error: 'Invalid modelId: path traversal not allowed' },
+        { status: 400 }
+      );
+    }
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Invalid format. Must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isCompressionLevel(compressionLevel)) {
+      return NextResponse.json(
+        { error: 'Invalid compressionLevel. Must be one of: full, compressed, ultra' },
+        { status: 400 }
+      );
+    }
+
+    const isPlainObject = (value: unknown): boolean =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+
+    if (
+      !isPlainObject(textureOverrides) ||
+      (textureOverrides.quality !== undefined && !isPlainObject(textureOverrides.quality))
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid textures. Must be an object, with quality as an object of values per map' },
+        { status: 400 }
+      );
+    }
+
+    // Texture options override the tier defaults field by field
+    const defaults = COMPRESSION_TIERS[compressionLevel].textures;
+    const textures: TextureSettings = {
+      maxSize: textureOverrides.maxSize === undefined ? defaults.maxSize : textureOverrides.maxSize,
+      format: textureOverrides.format ?? defaults.format,
+      quality: { ...defaults.quality, ...textureOverrides.quality },
+    };
+
+    if (!isTextureFormat(textures.format)) {
+      return NextResponse.json(
+        { error: `Invalid texture format. Must be one of: ${Object.keys(TEXTURE_FORMATS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (textures.maxSize !== null && !(Number.isInteger(textures.maxSize) && textures.maxSize >= 16)) {
+      return NextResponse.json(
+        { error: 'Invalid texture maxSize. Must be null or an integer of at least 16' },
+        { status: 400 }
+      );
+    }
+
+    if (!Object.values(textures.quality).every((value) => typeof value === 'number' && value >= 1 && value <= 100)) {
+      return NextResponse.json(
+        { error: 'Invalid texture quality. Values must be between 1 and 100' },
+        { status: 400 }
+      );
+    }
+
+    const modelPath = path.join(process.cwd(), 'public', 'models', modelId);
+    if (!existsSync(modelPath)) {
+      return NextResponse.json(
+        { error: 'Model file not found' },
+        { status: 404 }
+      );
+    }
+
+    const baseName = modelId.replace(/\.glb$/i, '');
+    const formatInfo = EXPORT_FORMATS[format];
+
+    const { files } = await exportModel(modelPath, format, compressionLevel, baseName, textures);
+
+    // Packaged formats are already a single file
+    if (formatInfo.packaged) {
+      return new NextResponse(new Uint8Array(files[0].data), {
+        status: 200,
+        headers: {
+          'Content-Type': formatInfo.mimeType,
+          'Content-Disposition': `attachment; filename="${files[0].name}"`,
+        },
+      });
+    }
+
+    const zip = new JSZip();
+    files.forEach(({ name, data }) => {
+      zip.file(name, data);
+    });
+
+    const zipBuffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+    return new NextResponse(new Uint8Array(zipBuffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${baseName}.${formatInfo.extension}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export model', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { geminiService } from '@/lib/services';
-import { saveAsset, saveAssetFromUrl, getAsset } from '@/lib/storage/assets';
-import { createJob, updateJob } from '@/lib/storage/jobs';
+import { imageGenerationProviders, ServiceError } from '@/lib/services';
+import { saveAsset, saveAssetFromUrl, getAsset, createProvenance } from '@/lib/storage/assets';
+import { createJob } from '@/lib/storage/jobs';
+import { computeCacheKey, getCachedResult, cacheResult } from '@/lib/storage/cache';
+import { runJobInBackground } from '@/lib/jobs/runner';
 import { getBaseUrl } from '@/lib/utils';
 import { GeminiSettings } from '@/lib/services/base';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { prompt, sourceImageId, settings } = body as {
+    const { prompt, sourceImageId, settings, provider, force } = body as {
       prompt?: string;
       sourceImageId?: string;
       settings?: GeminiSettings;
+      provider?: string;
+      force?: boolean;
     };
 
     if (!prompt) {
@@ -21,64 +25,93 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (provider && !imageGenerationProviders.has(provider)) {
+      return NextResponse.json(
+        { error: `Unknown image generation provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+    const imageProvider = imageGenerationProviders.get(provider);
+
     const job = createJob('generate', {
       prompt,
+      provider: imageProvider.name,
       settings: settings as Record<string, unknown>,
+      force: force === true,
     });
 
-    updateJob(job.id, {
-      status: 'processing',
-      progress: 10,
-      message: 'Starting image generation...',
-    });
-
-    const result = await geminiService.generateImage(
-      { prompt, settings },
-      (progress, message) => {
-        updateJob(job.id, { progress, message });
+    const runningJob = runJobInBackground(job.id, async ({ signal, onProgress }) => {
+      const startedAt = new Date();
+      const cacheKey = await computeCacheKey(
+        { operation: 'generate', provider: imageProvider.name, prompt, settings: settings, random: true },
+        signal
+      );
+      const cached = force === true ? null : getCachedResult(cacheKey);
+      if (cached) {
+        return {
+          message: 'Reused cached image',
+          output: {
+            assetId: cached.asset.id,
+            assetPath: cached.asset.path,
+            cacheHit: true,
+            cachedFromJobId: cached.jobId,
+          },
+        };
       }
-    );
 
-    if (!result.success || !result.data) {
-      updateJob(job.id, {
-        status: 'failed',
-        progress: 100,
-        message: result.error || 'Failed to generate image',
-        output: { error: result.error },
-      });
-      return NextResponse.json(
-        { error: result.error || 'Failed to generate image', jobId: job.id },
-        { status: 500 }
+      const result = await imageProvider.generateImage(
+        { prompt, settings },
+        onProgress,
+        signal
       );
-    }
 
-    // Convert base64 to asset
-    const imageBuffer = Buffer.from(result.data.imageData, 'base64');
-    const imageData = `data:${result.data.mimeType};base64,${result.data.imageData}`;
+      if (!result.success || !result.data) {
+        throw ServiceError.fromResult(result, 'Failed to generate image');
+      }
 
-    const asset = await saveAsset('generated', imageData, {
-      prompt,
-      sourceAssetId: sourceImageId,
-    });
+      // Convert base64 to asset
+      const imageData = `data:${result.data.mimeType};base64,${result.data.imageData}`;
 
-    updateJob(job.id, {
-      status: 'completed',
-      progress: 100,
-      message: 'Image generated successfully',
-      output: { assetPath: asset.path, assetId: asset.id },
-    });
+      const asset = await saveAsset('generated', imageData, {
+        prompt,
+        sourceAssetId: sourceImageId,
+        provenance: createProvenance(startedAt, {
+          jobId: job.id,
+          provider: imageProvider.name,
+          model: imageProvider.model,
+          settings: settings as Record<string, unknown>,
+          request: {
+            endpoint: '/api/generate-image',
+            body: { prompt, sourceImageId, settings, provider: imageProvider.name },
+          },
+        }),
+      });
 
-    return NextResponse.json({
-      success: true,
-      jobId: job.id,
-      imagePath: asset.path,
-      asset,
-    });
+      cacheResult(cacheKey, {
+        operation: 'generate',
+        provider: imageProvider.name,
+        assetId: asset.id,
+        jobId: job.id,
+      });
+
+      return {
+        message: 'Image generated successfully',
+        output: { assetPath: asset.path, assetId: asset.id },
+      };
+    }, 'Starting image generation...');
+
+    return NextResponse.json(
+      { success: true, jobId: job.id, job: runningJob },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Generate image error:', error);
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Internal server error' },
-      { status: 500 }
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        code: error instanceof ServiceError ? error.code : undefined,
+      },
+      { status: error instanceof ServiceError ? error.status : 500 }
     );
   }
 }
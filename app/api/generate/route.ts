@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { geminiService } from '@/lib/services';
-import { saveAsset } from '@/lib/storage/assets';
-import { createJob, updateJob } from '@/lib/storage/jobs';
+import { imageGenerationProviders, ServiceError } from '@/lib/services';
+import { saveAsset, createProvenance } from '@/lib/storage/assets';
+import { createJob } from '@/lib/storage/jobs';
+import { computeCacheKey, getCachedResult, cacheResult } from '@/lib/storage/cache';
+import { runJobInBackground } from '@/lib/jobs/runner';
 import { GeminiSettings } from '@/lib/services/base';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { prompt, aspectRatio, settings } = body;
+    const { prompt, aspectRatio, settings, provider, force } = body;
 
     if (!prompt || typeof prompt !== 'string') {
       return NextResponse.json(
@@ -16,6 +18,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (provider && !imageGenerationProviders.has(provider)) {
+      return NextResponse.json(
+        { error: `Unknown image generation provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+    const imageProvider = imageGenerationProviders.get(provider);
+
     // Build settings object
     const imageSettings: GeminiSettings = settings || {};
     if (aspectRatio && !imageSettings.aspectRatio) {
@@ -24,57 +34,80 @@ export async function POST(request: NextRequest) {
 
     const job = createJob('generate', {
       prompt,
+      provider: imageProvider.name,
       settings: imageSettings as Record<string, unknown>,
+      force: force === true,
     });
 
-    updateJob(job.id, { status: 'processing', progress: 10, message: 'Starting image generation...' });
+    const runningJob = runJobInBackground(job.id, async ({ signal, onProgress }) => {
+      const startedAt = new Date();
+      const cacheKey = await computeCacheKey(
+        { operation: 'generate', provider: imageProvider.name, prompt, settings: imageSettings, random: true },
+        signal
+      );
+      const cached = force === true ? null : getCachedResult(cacheKey);
+      if (cached) {
+        return {
+          message: 'Reused cached image',
+          output: {
+            assetId: cached.asset.id,
+            assetPath: cached.asset.path,
+            cacheHit: true,
+            cachedFromJobId: cached.jobId,
+          },
+        };
+      }
+
+      const result = await imageProvider.generateImage(
+        { prompt, settings: imageSettings },
+        onProgress,
+        signal
+      );
 
-    const result = await geminiService.generateImage(
-      { prompt, settings: imageSettings },
-      (progress, message) => {
-        updateJob(job.id, { progress, message });
+      if (!result.success || !result.data) {
+        throw ServiceError.fromResult(result, 'Failed to generate image');
       }
-    );
 
-    if (!result.success || !result.data) {
-      updateJob(job.id, {
-        status: 'failed',
-        progress: 100,
-        message: result.error || 'Failed to generate image',
-        output: { error: result.error },
+      const asset = await saveAsset('generated', result.data.imageData, {
+        prompt,
+        metadata: {},
+        provenance: createProvenance(startedAt, {
+          jobId: job.id,
+          provider: imageProvider.name,
+          model: imageProvider.model,
+          settings: imageSettings as Record<string, unknown>,
+          request: {
+            endpoint: '/api/generate',
+            body: { prompt, settings: imageSettings, provider: imageProvider.name },
+          },
+        }),
       });
-      return NextResponse.json(
-        { error: result.error || 'Failed to generate image', jobId: job.id },
-        { status: 500 }
-      );
-    }
 
-    const asset = await saveAsset('generated', result.data.imageData, {
-      prompt,
-      metadata: {},
-    });
+      cacheResult(cacheKey, {
+        operation: 'generate',
+        provider: imageProvider.name,
+        assetId: asset.id,
+        jobId: job.id,
+      });
 
-    updateJob(job.id, {
-      status: 'completed',
-      progress: 100,
-      message: 'Image generated successfully',
-      output: { assetId: asset.id, assetPath: asset.path },
-    });
+      return {
+        message: 'Image generated successfully',
+        output: { assetId: asset.id, assetPath: asset.path },
+      };
+    }, 'Starting image generation...');
 
-    return NextResponse.json({
-      success: true,
-      jobId: job.id,
-      asset: {
-        id: asset.id,
-        path: asset.path,
-        type: asset.type,
-      },
-    });
+    return NextResponse.json(
+      { success: true, jobId: job.id, job: runningJob },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Generate error:', error);
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Internal server error' },
-      { status: 500 }
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        code: error instanceof ServiceError ? error.code : undefined,
+      },
+      { status: error instanceof ServiceError ? error.status : 500 }
     );
   }
 }
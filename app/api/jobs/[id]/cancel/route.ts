@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, isTerminalStatus } from '@/lib/storage/jobs';
+import { cancelJob } from '@/lib/jobs/runner';
+import { updateParentProgress } from '@/lib/jobs/queue';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const job = getJob(params.id);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (isTerminalStatus(job.status)) {
+      return NextResponse.json(
+        { error: `Job is already ${job.status}`, job },
+        { status: 409 }
+      );
+    }
+
+    const cancelled = cancelJob(job.id);
+
+    // Cancelling a single child may be what finishes its parent
+    if (job.parentJobId) {
+      updateParentProgress(job.parentJobId);
+    }
+
+    return NextResponse.json({ success: true, job: cancelled });
+  } catch (error) {
+    console.error('Cancel job error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
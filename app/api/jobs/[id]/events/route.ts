@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, subscribeToJob, isTerminalStatus, Job } from '@/lib/storage/jobs';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL = 15000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const job = getJob(params.id);
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Job not found' },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let lastSent = '';
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed by the client
+        }
+      };
+
+      const send = (current: Job) => {
+        if (closed) return;
+
+        // Only push when something the client displays has changed
+        const key = `${current.status}|${current.progress}|${current.message ?? ''}`;
+        if (key === lastSent) return;
+        lastSent = key;
+
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(current)}\n\n`));
+
+        if (isTerminalStatus(current.status)) {
+          close();
+        }
+      };
+
+      const unsubscribe = subscribeToJob(job.id, send);
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+        request.signal.removeEventListener('abort', close);
+      };
+
+      request.signal.addEventListener('abort', close);
+
+      // Re-read after subscribing so no update between the lookup and now is lost
+      send(getJob(job.id) ?? job);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
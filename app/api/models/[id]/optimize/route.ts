@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { getAsset, saveModel, createProvenance } from '@/lib/storage/assets';
+import { createJob } from '@/lib/storage/jobs';
+import { runJobInBackground } from '@/lib/jobs/runner';
+import {
+  OPTIMIZE_PRESETS,
+  isOptimizePreset,
+  optimizeModel,
+} from '@/lib/utils/optimizeUtils';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { preset = 'web' } = body as { preset?: string };
+
+    if (!isOptimizePreset(preset)) {
+      return NextResponse.json(
+        {
+          error: `Invalid preset. Must be one of: ${Object.keys(OPTIMIZE_PRESETS).join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const asset = getAsset(params.id);
+    if (!asset || asset.type !== 'model') {
+      return NextResponse.json(
+        { error: 'Model asset not found' },
+        { status: 404 }
+      );
+    }
+
+    const modelPath = join(process.cwd(), 'public', asset.path);
+    if (!existsSync(modelPath)) {
+      return NextResponse.json(
+        { error: 'Model file not found' },
+        { status: 404 }
+      );
+    }
+
+    const job = createJob('optimize', {
+      assetId: asset.id,
+      options: { preset },
+    });
+
+    const runningJob = runJobInBackground(job.id, async ({ signal, onProgress }) => {
+      const startedAt = new Date();
+      const optimized = await optimizeModel(modelPath, preset, (stage, progress) =>
+        onProgress(progress, `${stage}...`)
+      );
+      signal.throwIfAborted();
+
+      const optimizedAsset = await saveModel(optimized, {
+        sourceAssetId: asset.id,
+        prompt: asset.prompt,
+        metadata: {
+          optimization: { preset, sourceFileSize: asset.metadata.fileSize },
+        },
+        provenance: createProvenance(startedAt, {
+          jobId: job.id,
+          settings: { preset },
+          request: { endpoint: `/api/models/${asset.id}/optimize`, body: { preset } },
+        }),
+      });
+
+      return {
+        message: `Model optimized with the ${OPTIMIZE_PRESETS[preset].label} preset`,
+        output: { assetId: optimizedAsset.id, modelPath: optimizedAsset.path },
+      };
+    }, 'Starting model optimization...');
+
+    return NextResponse.json(
+      { success: true, jobId: job.id, job: runningJob },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Optimize model error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { imageGenerationProviders, imageTo3DProviders } from '@/lib/services';
+
+// Depends on config.json, not on anything known at build time
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      imageGen: {
+        default: imageGenerationProviders.get().name,
+        providers: imageGenerationProviders.list().map((name) => ({ name })),
+      },
+      imageTo3D: {
+        default: imageTo3DProviders.get().name,
+        providers: imageTo3DProviders.list().map((name) => ({
+          name,
+          capabilities: imageTo3DProviders.get(name).capabilities,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('List providers error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
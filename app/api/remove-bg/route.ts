@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { briaService } from '@/lib/services';
-import { saveAssetFromUrl, getAsset } from '@/lib/storage/assets';
-import { createJob, updateJob } from '@/lib/storage/jobs';
+import {
+  backgroundRemovalProviders,
+  removeBackgroundWithFallback,
+  ServiceError,
+} from '@/lib/services';
+import { saveAssetFromUrl, getAsset, createProvenance } from '@/lib/storage/assets';
+import { createJob } from '@/lib/storage/jobs';
+import { computeCacheKey, getCachedResult, cacheResult } from '@/lib/storage/cache';
+import { runJobInBackground } from '@/lib/jobs/runner';
 import { getBaseUrl } from '@/lib/utils';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { imageUrl, assetId } = body;
+    const { imageUrl, assetId, provider, force } = body;
 
     let sourceUrl: string;
     let sourceAssetId: string | undefined;
@@ -33,57 +39,100 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const job = createJob('remove-bg', { imageUrl: sourceUrl, assetId: sourceAssetId });
+    if (provider && !backgroundRemovalProviders.has(provider)) {
+      return NextResponse.json(
+        { error: `Unknown background removal provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+    const removalProvider = backgroundRemovalProviders.get(provider);
 
-    updateJob(job.id, { status: 'processing', progress: 10, message: 'Starting background removal...' });
+    const job = createJob('remove-bg', {
+      imageUrl: sourceUrl,
+      assetId: sourceAssetId,
+      provider: removalProvider.name,
+      force: force === true,
+    });
 
-    const result = await briaService.removeBackground(
-      { imageUrl: sourceUrl },
-      (progress, message) => {
-        updateJob(job.id, { progress, message });
+    const runningJob = runJobInBackground(job.id, async ({ signal, onProgress }) => {
+      const startedAt = new Date();
+      const cacheKey = await computeCacheKey(
+        { operation: 'remove-bg', provider: removalProvider.name, imageUrls: [sourceUrl] },
+        signal
+      );
+      const cached = force === true ? null : getCachedResult(cacheKey);
+      if (cached) {
+        return {
+          message: 'Reused cached background removal result',
+          output: {
+            assetId: cached.asset.id,
+            assetPath: cached.asset.path,
+            cacheHit: true,
+            cachedFromJobId: cached.jobId,
+          },
+        };
       }
-    );
 
-    if (!result.success || !result.data) {
-      updateJob(job.id, {
-        status: 'failed',
-        progress: 100,
-        message: result.error || 'Failed to remove background',
-        output: { error: result.error },
-      });
-      return NextResponse.json(
-        { error: result.error || 'Failed to remove background', jobId: job.id },
-        { status: 500 }
+      const result = await removeBackgroundWithFallback(
+        { imageUrl: sourceUrl },
+        removalProvider.name,
+        onProgress,
+        signal
       );
-    }
 
-    const asset = await saveAssetFromUrl('no-bg', result.data.imageUrl, {
-      prompt,
-      sourceAssetId,
-      metadata: {},
-    });
+      if (!result.success || !result.data) {
+        throw ServiceError.fromResult(result, 'Failed to remove background');
+      }
 
-    updateJob(job.id, {
-      status: 'completed',
-      progress: 100,
-      message: 'Background removed successfully',
-      output: { assetId: asset.id, assetPath: asset.path },
-    });
+      const asset = await saveAssetFromUrl('no-bg', result.data.imageUrl, {
+        prompt,
+        sourceAssetId,
+        metadata: { backgroundRemoval: result.data.removal },
+        // Credit the provider that did the work, which may be the fallback
+        provenance: createProvenance(startedAt, {
+          jobId: job.id,
+          provider: result.data.removal.method,
+          model: backgroundRemovalProviders.get(result.data.removal.method).model,
+          request: {
+            endpoint: '/api/remove-bg',
+            body: {
+              ...(sourceAssetId ? { assetId: sourceAssetId } : { imageUrl: sourceUrl }),
+              provider: removalProvider.name,
+            },
+          },
+        }),
+      });
 
-    return NextResponse.json({
-      success: true,
-      jobId: job.id,
-      asset: {
-        id: asset.id,
-        path: asset.path,
-        type: asset.type,
-      },
-    });
+      // A fallback result is not what the requested provider would have produced
+      if (!result.data.removal.fallback) {
+        cacheResult(cacheKey, {
+          operation: 'remove-bg',
+          provider: removalProvider.name,
+          assetId: asset.id,
+          jobId: job.id,
+        });
+      }
+
+      return {
+        message: result.data.removal.fallback
+          ? `Background removed with ${result.data.removal.method} fallback`
+          : 'Background removed successfully',
+        output: { assetId: asset.id, assetPath: asset.path },
+      };
+    }, 'Starting background removal...');
+
+    return NextResponse.json(
+      { success: true, jobId: job.id, job: runningJob },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Remove background error:', error);
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Internal server error' },
-      { status: 500 }
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        code: error instanceof ServiceError ? error.code : undefined,
+      },
+      { status: error instanceof ServiceError ? error.status : 500 }
     );
   }
 }
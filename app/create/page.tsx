@@ -18,6 +18,7 @@ import {
 import { GeminiSettings } from '@/components/pipeline/GeminiSettings';
 import { GeminiSettings as GeminiSettingsType } from '@/lib/services/base';
 import { Asset } from '@/lib/storage/assets';
+import { runJob } from '@/lib/jobs/client';
 
 type Mode = 'generate' | 'edit';
 type GenerationStatus = 'idle' | 'generating' | 'success' | 'error';
@@ -51,29 +52,28 @@ export default function CreatePage() {
 
     try {
       const endpoint = mode === 'generate' ? '/api/generate-image' : '/api/edit-image';
+      // Generating again should always produce a new image
       const body: Record<string, unknown> = {
         prompt,
         settings,
+        force: true,
       };
 
       if (mode === 'edit' && selectedSourceImage) {
         body.sourceImageId = selectedSourceImage.id;
       }
 
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
+      const job = await runJob(endpoint, body, {
+        onProgress: (value, message) => {
+          setProgress(value);
+          if (message) setStatusMessage(message);
+        },
       });
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Generation failed');
-      }
-
+      const response = await fetch(`/api/assets?id=${job.output?.assetId}`);
       const data = await response.json();
 
-      if (data.success && data.asset) {
+      if (response.ok && data.asset) {
         setStatus('success');
         setStatusMessage('Complete!');
         setProgress(100);
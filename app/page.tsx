@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import dynamic from 'next/dynamic';
 import {
   Upload,
@@ -16,7 +16,11 @@ import {
 import { ImagePreview } from '@/components/ui/ImagePreview';
 import { TrellisSettings } from '@/components/pipeline/TrellisSettings';
 import { AssetPicker } from '@/components/gallery/AssetPicker';
-import { TrellisSettings as TrellisSettingsType } from '@/lib/services/base';
+import {
+  TrellisSettings as TrellisSettingsType,
+  ImageTo3DCapabilities,
+} from '@/lib/services/base';
+import { runJob, getJobAsset, requestJobCancel } from '@/lib/jobs/client';
 
 const ModelViewer = dynamic(
   () => import('@/components/ui/ModelViewer').then((mod) => mod.ModelViewer),
@@ -38,6 +42,11 @@ interface Asset {
   prompt?: string;
 }
 
+interface ModelProvider {
+  name: string;
+  capabilities: ImageTo3DCapabilities;
+}
+
 const DEFAULT_SETTINGS: TrellisSettingsType = {
   resolution: 1024,
   decimation_target: 500000,
@@ -62,20 +71,39 @@ export default function Home() {
   const [imageAssets, setImageAssets] = useState<Asset[]>([]);
   const [noBgAssets, setNoBgAssets] = useState<Asset[]>([]);
   const [modelPath, setModelPath] = useState<string | null>(null);
+  const [modelSeed, setModelSeed] = useState<number | undefined>(undefined);
   const [settings, setSettings] = useState<TrellisSettingsType>(DEFAULT_SETTINGS);
   const [showAssetPicker, setShowAssetPicker] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [removingBg, setRemovingBg] = useState(false);
   const [converting, setConverting] = useState(false);
   const [progress, setProgress] = useState({ value: 0, message: '' });
+  const [convertJobId, setConvertJobId] = useState<string | null>(null);
+  const [modelProviders, setModelProviders] = useState<ModelProvider[]>([]);
+  const [modelProvider, setModelProvider] = useState<string>('');
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const addMoreInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    fetch('/api/providers')
+      .then((res) => res.json())
+      .then((data) => {
+        setModelProviders(data.imageTo3D?.providers || []);
+        setModelProvider(data.imageTo3D?.default || '');
+      })
+      .catch((err) => console.error('Failed to load providers:', err));
+  }, []);
+
+  const selectedProvider = modelProviders.find((p) => p.name === modelProvider);
+  // Until providers load, assume the default Trellis knobs apply
+  const showTrellisSettings = !selectedProvider || selectedProvider.capabilities.settings;
+
   const handleReset = () => {
     setImageAssets([]);
     setNoBgAssets([]);
     setModelPath(null);
+    setModelSeed(undefined);
     setProgress({ value: 0, message: '' });
   };
 
@@ -130,16 +158,9 @@ export default function Home() {
     setProgress({ value: 10, message: 'Removing backgrounds...' });
 
     try {
-      const promises = imageAssets.map(async (asset, index) => {
-        const response = await fetch('/api/remove-bg', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ assetId: asset.id }),
-        });
-
-        const data = await response.json();
-        if (!response.ok) throw new Error(data.error);
-        return data.asset;
+      const promises = imageAssets.map(async (asset) => {
+        const job = await runJob('/api/remove-bg', { assetId: asset.id });
+        return { ...getJobAsset(job, 'no-bg'), prompt: asset.prompt };
       });
 
       const results = await Promise.all(promises);
@@ -163,22 +184,33 @@ export default function Home() {
     try {
       const imageUrls = sourceAssets.map((a) => a.path);
 
-      const response = await fetch('/api/convert-3d', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ imageUrls, settings }),
+      const job = await runJob('/api/convert-3d', {
+        imageUrls,
+        settings: showTrellisSettings ? settings : undefined,
+        provider: modelProvider || undefined,
+      }, {
+        onStart: (started) => setConvertJobId(started.id),
+        onProgress: (value, message) => setProgress({ value, message: message || '' }),
       });
 
-      const data = await response.json();
-      if (!response.ok) throw new Error(data.error);
-
-      setModelPath(data.modelPath);
+      setModelPath(job.output?.modelPath || null);
+      setModelSeed(job.output?.seed);
       setProgress({ value: 100, message: '3D model generated' });
     } catch (err) {
       alert(err instanceof Error ? err.message : '3D conversion failed');
       setProgress({ value: 0, message: '' });
     } finally {
       setConverting(false);
+      setConvertJobId(null);
+    }
+  };
+
+  const handleCancelConvert = async () => {
+    if (!convertJobId) return;
+    try {
+      await requestJobCancel(convertJobId);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to cancel conversion');
     }
   };
 
@@ -347,7 +379,31 @@ export default function Home() {
 
           {/* Settings section */}
           <div className="flex-1 overflow-y-auto">
-            <TrellisSettings settings={settings} onChange={setSettings} />
+            {modelProviders.length > 1 && (
+              <div className="px-4 pt-4">
+                <label className="block text-xs text-gray-500 mb-1.5">3D Provider</label>
+                <select
+                  value={modelProvider}
+                  onChange={(e) => setModelProvider(e.target.value)}
+                  disabled={isProcessing}
+                  className="w-full px-3 py-2 text-sm text-gray-300 bg-gray-800/50 border border-gray-700/50 rounded-lg focus:outline-none focus:border-indigo-500"
+                >
+                  {modelProviders.map((p) => (
+                    <option key={p.name} value={p.name}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+                {selectedProvider && !selectedProvider.capabilities.multiView && imageAssets.length > 1 && (
+                  <p className="mt-1.5 text-xs text-amber-400">
+                    This provider accepts a single view only
+                  </p>
+                )}
+              </div>
+            )}
+            {showTrellisSettings && (
+              <TrellisSettings settings={settings} onChange={setSettings} lastSeed={modelSeed} />
+            )}
           </div>
 
           {/* Convert button */}
@@ -374,6 +430,15 @@ export default function Home() {
               <Box className="w-4 h-4" />
               {converting ? 'Converting...' : `Convert to 3D${imageAssets.length > 1 ? ` (${imageAssets.length} views)` : ''}`}
             </button>
+            {convertJobId && (
+              <button
+                onClick={handleCancelConvert}
+                className="w-full mt-2 inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-gray-300 bg-gray-800/50 rounded-xl hover:text-white hover:bg-gray-800 transition-all"
+              >
+                <X className="w-4 h-4" />
+                Cancel
+              </button>
+            )}
           </div>
         </div>
 
@@ -388,6 +453,7 @@ export default function Home() {
                 <span className="text-xs text-gray-500 flex items-center gap-1.5">
                   <Settings2 className="w-3.5 h-3.5" />
                   Drag to rotate · Scroll to zoom · Right-click to pan
+                  {modelSeed !== undefined && ` · Seed ${modelSeed}`}
                 </span>
                 <button
                   onClick={handleDownload}
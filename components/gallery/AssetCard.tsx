@@ -1,6 +1,8 @@
 'use client';
 
 import { formatDate, formatFileSize } from '@/lib/utils';
+import type { ModelStats } from '@/lib/utils/modelStatsUtils';
+import type { AssetProvenance } from '@/lib/storage/assets';
 
 interface Asset {
   id: string;
@@ -12,15 +14,27 @@ interface Asset {
   metadata: {
     width?: number;
     height?: number;
+    format?: string;
+    hasAlpha?: boolean;
     fileSize?: number;
+    modelStats?: ModelStats;
     originalName?: string;
+    backgroundRemoval?: {
+      method: string;
+      fallback: boolean;
+      reason?: string;
+    };
   };
+  provenance?: AssetProvenance;
 }
 
 interface AssetCardProps {
   asset: Asset;
   onSelect?: (asset: Asset) => void;
   onDelete?: (asset: Asset) => void;
+  onShowLineage?: (asset: Asset) => void;
+  onReproduce?: (asset: Asset) => void;
+  reproducing?: boolean;
   selected?: boolean;
   selectable?: boolean;
 }
@@ -43,6 +57,9 @@ export function AssetCard({
   asset,
   onSelect,
   onDelete,
+  onShowLineage,
+  onReproduce,
+  reproducing = false,
   selected = false,
   selectable = false,
 }: AssetCardProps) {
@@ -59,6 +76,20 @@ export function AssetCard({
     }
   };
 
+  const handleReproduce = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onReproduce && !reproducing) {
+      onReproduce(asset);
+    }
+  };
+
+  const handleShowLineage = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onShowLineage) {
+      onShowLineage(asset);
+    }
+  };
+
   return (
     <div
       onClick={handleClick}
@@ -119,6 +150,49 @@ export function AssetCard({
               </svg>
             </button>
           )}
+          {onReproduce && asset.provenance?.request && (
+            <button
+              onClick={handleReproduce}
+              disabled={reproducing}
+              className="p-2 bg-emerald-600 rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+              title="Reproduce"
+            >
+              <svg
+                className={`w-5 h-5 ${reproducing ? 'animate-spin' : ''}`}
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                />
+              </svg>
+            </button>
+          )}
+          {onShowLineage && (
+            <button
+              onClick={handleShowLineage}
+              className="p-2 bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors"
+              title="Show lineage"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m0 0h3a6 6 0 006-6V9m0 0a3 3 0 10-3-3 3 3 0 003 3z"
+                />
+              </svg>
+            </button>
+          )}
           {onDelete && (
             <button
               onClick={handleDelete}
@@ -185,10 +259,39 @@ export function AssetCard({
         )}
         <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
           <span>{formatDate(asset.createdAt)}</span>
+          {asset.metadata.width && asset.metadata.height && (
+            <span
+              className="px-1.5 py-0.5 bg-gray-800 rounded text-gray-400"
+              title={[
+                asset.metadata.format?.toUpperCase(),
+                asset.metadata.hasAlpha ? 'with alpha' : undefined,
+              ]
+                .filter(Boolean)
+                .join(' ')}
+            >
+              {asset.metadata.width}×{asset.metadata.height}
+            </span>
+          )}
+          {asset.metadata.modelStats && (
+            <span
+              className="px-1.5 py-0.5 bg-gray-800 rounded text-gray-400"
+              title={asset.metadata.modelStats.watertight ? 'Watertight' : 'Open mesh'}
+            >
+              {asset.metadata.modelStats.triangleCount.toLocaleString()} tris
+            </span>
+          )}
           {asset.metadata.fileSize && (
             <span>{formatFileSize(asset.metadata.fileSize)}</span>
           )}
         </div>
+        {asset.metadata.backgroundRemoval?.fallback && (
+          <p
+            className="mt-1 text-xs text-amber-400 truncate"
+            title={asset.metadata.backgroundRemoval.reason}
+          >
+            Background removed locally ({asset.metadata.backgroundRemoval.method})
+          </p>
+        )}
       </div>
     </div>
   );
@@ -11,11 +11,19 @@ import {
   Box,
   Wand2,
   Upload,
-  FileArchive
+  FileArchive,
+  GitBranch,
+  RotateCcw
 } from 'lucide-react';
 import { AssetCard } from './AssetCard';
+import { LineageGraph } from './LineageGraph';
 import { DownloadButton } from '@/components/ui/DownloadButton';
-import { CompressionLevel } from '@/lib/utils/estimationUtils';
+import { EXPORT_FORMATS } from '@/lib/converters/formats';
+import type { ExportFormat } from '@/lib/converters/formats';
+import { CompressionLevel, TextureSettings } from '@/lib/utils/estimationUtils';
+import type { ModelStats } from '@/lib/utils/modelStatsUtils';
+import type { AssetProvenance } from '@/lib/storage/assets';
+import { reproduceAsset } from '@/lib/jobs/client';
 
 const ModelViewer = dynamic(
   () => import('../ui/ModelViewer').then((mod) => mod.ModelViewer),
@@ -38,13 +46,16 @@ interface Asset {
   path: string;
   prompt?: string;
   sourceAssetId?: string;
+  sourceAssetIds?: string[];
   createdAt: string;
   metadata: {
     width?: number;
     height?: number;
     fileSize?: number;
     originalName?: string;
+    modelStats?: ModelStats;
   };
+  provenance?: AssetProvenance;
 }
 
 interface AssetGalleryProps {
@@ -66,6 +77,10 @@ export function AssetGallery({
   const [filterType, setFilterType] = useState<AssetType | 'all'>(externalFilterType || 'all');
   const [search, setSearch] = useState('');
   const [viewingModel, setViewingModel] = useState<Asset | null>(null);
+  const [lineageAssetId, setLineageAssetId] = useState<string | null>(null);
+  const [reproducingId, setReproducingId] = useState<string | null>(null);
+  const [modelStats, setModelStats] = useState<ModelStats | null>(null);
+  const [inputViews, setInputViews] = useState<Asset[]>([]);
   const [converting, setConverting] = useState(false);
   const [conversionProgress, setConversionProgress] = useState({ stage: '', progress: 0 });
   const [conversionError, setConversionError] = useState<{ type: string; message: string; details?: string } | null>(null);
@@ -102,6 +117,66 @@ export function AssetGallery({
     fetchAssets();
   }, [filterType, search]);
 
+  useEffect(() => {
+    setModelStats(viewingModel?.metadata.modelStats ?? null);
+    if (!viewingModel || viewingModel.metadata.modelStats) {
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/assets/${viewingModel.id}/model-stats`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.stats) {
+          setModelStats(data.stats);
+          // The server cached the stats, so the card can show them too
+          setAssets((prev) =>
+            prev.map((asset) =>
+              asset.id === viewingModel.id
+                ? { ...asset, metadata: { ...asset.metadata, modelStats: data.stats } }
+                : asset
+            )
+          );
+        }
+      })
+      .catch(() => {
+        // Stats are informational; the viewer works without them
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [viewingModel]);
+
+  useEffect(() => {
+    setInputViews([]);
+    const sourceIds = viewingModel?.sourceAssetIds ?? [];
+    if (sourceIds.length === 0) {
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/assets?id=${viewingModel!.id}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.lineage) {
+          const lineage: Asset[] = data.lineage;
+          setInputViews(
+            sourceIds
+              .map((id) => lineage.find((asset) => asset.id === id))
+              .filter((asset): asset is Asset => asset !== undefined)
+          );
+        }
+      })
+      .catch(() => {
+        // Input views are informational; the viewer works without them
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [viewingModel]);
+
   const handleAssetClick = (asset: Asset) => {
     if (asset.type === 'model') {
       setViewingModel(asset);
@@ -110,6 +185,22 @@ export function AssetGallery({
     }
   };
 
+  const handleReproduce = async (asset: Asset) => {
+    if (!asset.provenance) {
+      return;
+    }
+
+    setReproducingId(asset.id);
+    try {
+      await reproduceAsset(asset.provenance);
+      await fetchAssets();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to reproduce asset');
+    } finally {
+      setReproducingId(null);
+    }
+  };
+
   const handleDelete = async (asset: Asset) => {
     if (!confirm('Are you sure you want to delete this asset?')) {
       return;
@@ -132,7 +223,12 @@ export function AssetGallery({
     }
   };
 
-  const handleObjDownload = async (asset: Asset, level: CompressionLevel) => {
+  const handleExportDownload = async (
+    asset: Asset,
+    format: ExportFormat,
+    level: CompressionLevel,
+    textures: TextureSettings
+  ) => {
     setConverting(true);
     setConversionError(null);
     setConversionProgress({ stage: 'Preparing conversion...', progress: 0 });
@@ -141,12 +237,12 @@ export function AssetGallery({
       // Extract model filename from path (e.g., /models/model-123.glb -> model-123.glb)
       const modelId = asset.path.split('/').pop() || asset.id;
 
-      setConversionProgress({ stage: 'Converting to OBJ...', progress: 50 });
+      setConversionProgress({ stage: `Converting to ${format.toUpperCase()}...`, progress: 50 });
 
-      const response = await fetch('/api/convert-obj', {
+      const response = await fetch('/api/export', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ modelId, compressionLevel: level }),
+        body: JSON.stringify({ modelId, format, compressionLevel: level, textures }),
       });
 
       if (!response.ok) {
@@ -162,7 +258,9 @@ export function AssetGallery({
       try {
         const link = document.createElement('a');
         link.href = url;
-        link.download = `${modelId.replace('.glb', '')}_obj_${level}.zip`;
+        link.download = EXPORT_FORMATS[format].packaged
+          ? `${modelId.replace('.glb', '')}_${level}.${EXPORT_FORMATS[format].extension}`
+          : `${modelId.replace('.glb', '')}_${format}_${level}.zip`;
         document.body.appendChild(link);
         link.click();
       } finally {
@@ -188,9 +286,18 @@ export function AssetGallery({
     }
   };
 
-  const handleGlbDownload = async (asset: Asset, level: CompressionLevel) => {
-    // For now, GLB downloads don't support compression
-    // Just trigger the download directly
+  const handleDownload = async (
+    asset: Asset,
+    format: ExportFormat,
+    level: CompressionLevel,
+    textures: TextureSettings
+  ) => {
+    const unprocessed = level === 'full' && textures.format === 'original' && textures.maxSize === null;
+    if (format !== 'glb' || !unprocessed) {
+      return handleExportDownload(asset, format, level, textures);
+    }
+
+    // Nothing to change, so serve the original file
     const link = document.createElement('a');
     link.href = asset.path;
     link.download = asset.path.split('/').pop() || 'model.glb';
@@ -292,6 +399,9 @@ export function AssetGallery({
               asset={asset}
               onSelect={asset.type === 'model' ? handleAssetClick : onSelect}
               onDelete={selectable ? undefined : handleDelete}
+              onShowLineage={(asset) => setLineageAssetId(asset.id)}
+              onReproduce={selectable ? undefined : handleReproduce}
+              reproducing={reproducingId === asset.id}
               selected={selectedId === asset.id}
               selectable={selectable || asset.type === 'model'}
             />
@@ -306,6 +416,18 @@ export function AssetGallery({
         </p>
       )}
 
+      {/* Lineage Modal */}
+      {lineageAssetId && (
+        <LineageGraph
+          assetId={lineageAssetId}
+          onClose={() => setLineageAssetId(null)}
+          onOpenModel={(asset) => {
+            setLineageAssetId(null);
+            setViewingModel(asset);
+          }}
+        />
+      )}
+
       {/* Model Viewer Modal */}
       {viewingModel && (
         <div
@@ -324,13 +446,47 @@ export function AssetGallery({
                   {viewingModel.prompt || '3D Model'}
                 </h3>
                 <p className="text-sm text-gray-500">{viewingModel.path}</p>
+                {viewingModel.provenance && (
+                  <p className="text-xs text-gray-500">
+                    {[
+                      viewingModel.provenance.provider,
+                      viewingModel.provenance.model,
+                      viewingModel.provenance.seed !== undefined && `seed ${viewingModel.provenance.seed}`,
+                      `${(viewingModel.provenance.durationMs / 1000).toFixed(1)}s`,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                {viewingModel.provenance?.request && (
+                  <button
+                    onClick={() => handleReproduce(viewingModel)}
+                    disabled={reproducingId === viewingModel.id}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-gray-400 hover:text-white hover:bg-gray-800 rounded-xl transition-colors disabled:opacity-50"
+                  >
+                    <RotateCcw className={`w-4 h-4 ${reproducingId === viewingModel.id ? 'animate-spin' : ''}`} />
+                    Reproduce
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    setLineageAssetId(viewingModel.id);
+                    setViewingModel(null);
+                  }}
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-gray-400 hover:text-white hover:bg-gray-800 rounded-xl transition-colors"
+                >
+                  <GitBranch className="w-4 h-4" />
+                  Lineage
+                </button>
+                <button
+                  onClick={() => setViewingModel(null)}
+                  className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-xl transition-colors"
+                >
+                  <X className="w-6 h-6" />
+                </button>
               </div>
-              <button
-                onClick={() => setViewingModel(null)}
-                className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-xl transition-colors"
-              >
-                <X className="w-6 h-6" />
-              </button>
             </div>
 
             {/* Model Viewer */}
@@ -338,6 +494,63 @@ export function AssetGallery({
               <ModelViewer url={viewingModel.path} className="w-full h-full" autoRotate={false} />
             </div>
 
+            {/* Model statistics */}
+            {modelStats && (
+              <div className="flex flex-wrap gap-x-6 gap-y-1 px-4 py-3 border-t border-gray-800/60 text-xs text-gray-400">
+                <span>{modelStats.vertexCount.toLocaleString()} vertices</span>
+                <span>{modelStats.triangleCount.toLocaleString()} triangles</span>
+                <span>
+                  {modelStats.meshCount} mesh{modelStats.meshCount !== 1 ? 'es' : ''} ·{' '}
+                  {modelStats.primitiveCount} primitive{modelStats.primitiveCount !== 1 ? 's' : ''} ·{' '}
+                  {modelStats.materialCount} material{modelStats.materialCount !== 1 ? 's' : ''}
+                </span>
+                {modelStats.textures.length > 0 && (
+                  <span>
+                    Textures:{' '}
+                    {modelStats.textures
+                      .map((texture) =>
+                        texture.width && texture.height
+                          ? `${texture.width}×${texture.height} ${texture.mimeType.replace('image/', '')}`
+                          : texture.mimeType.replace('image/', '')
+                      )
+                      .join(', ')}
+                  </span>
+                )}
+                {modelStats.bounds && (
+                  <span>
+                    Size: {modelStats.bounds.size.map((value) => value.toFixed(2)).join(' × ')}
+                  </span>
+                )}
+                <span className={modelStats.watertight ? 'text-emerald-400' : 'text-amber-400'}>
+                  {modelStats.watertight ? 'Watertight' : 'Open mesh'}
+                </span>
+              </div>
+            )}
+
+            {/* Input views */}
+            {inputViews.length > 0 && (
+              <div className="px-4 py-3 border-t border-gray-800/60">
+                <p className="text-xs text-gray-500 mb-2">
+                  {inputViews.length > 1 ? `Made from ${inputViews.length} views` : 'Made from'}
+                </p>
+                <div className="flex gap-2 overflow-x-auto">
+                  {inputViews.map((view) => (
+                    <button
+                      key={view.id}
+                      onClick={() => {
+                        setLineageAssetId(view.id);
+                        setViewingModel(null);
+                      }}
+                      className="shrink-0 w-16 h-16 bg-gray-800 rounded-lg overflow-hidden ring-1 ring-gray-700 hover:ring-indigo-500 transition-all"
+                      title={view.prompt || view.metadata.originalName || view.path}
+                    >
+                      <img src={view.path} alt={view.prompt || 'Input view'} className="w-full h-full object-contain" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Footer */}
             <div className="flex items-center justify-between p-4 border-t border-gray-800/60">
               <p className="text-xs text-gray-500">
@@ -345,15 +558,8 @@ export function AssetGallery({
               </p>
               <div className="flex gap-2">
                 <DownloadButton
-                  assetType="obj"
-                  originalSizeBytes={viewingModel.metadata.fileSize || 0}
-                  onDownload={(level) => handleObjDownload(viewingModel, level)}
-                  disabled={converting}
-                />
-                <DownloadButton
-                  assetType="glb"
                   originalSizeBytes={viewingModel.metadata.fileSize || 0}
-                  onDownload={(level) => handleGlbDownload(viewingModel, level)}
+                  onDownload={(format, level, textures) => handleDownload(viewingModel, format, level, textures)}
                   disabled={converting}
                 />
               </div>
@@ -0,0 +1,233 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Box, GitBranch, X } from 'lucide-react';
+
+interface GraphAsset {
+  id: string;
+  type: 'generated' | 'no-bg' | 'upload' | 'model';
+  path: string;
+  prompt?: string;
+  createdAt: string;
+  metadata: {
+    originalName?: string;
+  };
+}
+
+interface AssetGraph {
+  rootId: string;
+  nodes: GraphAsset[];
+  edges: { from: string; to: string }[];
+}
+
+interface LineageGraphProps {
+  assetId: string;
+  onClose: () => void;
+  /** Open a model from the graph in the viewer */
+  onOpenModel?: (asset: GraphAsset) => void;
+}
+
+const NODE_WIDTH = 112;
+const NODE_HEIGHT = 136;
+const COLUMN_GAP = 64;
+const ROW_GAP = 16;
+
+const typeLabels = {
+  generated: 'Generated',
+  'no-bg': 'No BG',
+  upload: 'Upload',
+  model: '3D Model',
+};
+
+/**
+ * Place each asset in a column by its longest chain of sources, so every
+ * edge points left to right. Columns are ordered by creation time.
+ */
+function layoutGraph(graph: AssetGraph): Map<string, { x: number; y: number }> {
+  const sources = new Map<string, string[]>();
+  graph.edges.forEach(({ from, to }) => sources.set(to, [...(sources.get(to) ?? []), from]));
+
+  const depths = new Map<string, number>();
+  const depthOf = (id: string, seen: Set<string>): number => {
+    const known = depths.get(id);
+    if (known !== undefined) return known;
+    if (seen.has(id)) return 0;
+    seen.add(id);
+    const depth = Math.max(-1, ...(sources.get(id) ?? []).map((source) => depthOf(source, seen))) + 1;
+    depths.set(id, depth);
+    return depth;
+  };
+
+  const columns: GraphAsset[][] = [];
+  graph.nodes.forEach((node) => {
+    const depth = depthOf(node.id, new Set());
+    (columns[depth] = columns[depth] ?? []).push(node);
+  });
+
+  const positions = new Map<string, { x: number; y: number }>();
+  columns.forEach((column, depth) => {
+    column
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .forEach((node, row) => {
+        positions.set(node.id, {
+          x: depth * (NODE_WIDTH + COLUMN_GAP),
+          y: row * (NODE_HEIGHT + ROW_GAP),
+        });
+      });
+  });
+
+  return positions;
+}
+
+export function LineageGraph({ assetId, onClose, onOpenModel }: LineageGraphProps) {
+  const [currentId, setCurrentId] = useState(assetId);
+  const [graph, setGraph] = useState<AssetGraph | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCurrentId(assetId);
+  }, [assetId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetch(`/api/assets/${currentId}/graph`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load lineage');
+        }
+        if (!cancelled) setGraph(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load lineage');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentId]);
+
+  const positions = graph ? layoutGraph(graph) : new Map<string, { x: number; y: number }>();
+  const width = Math.max(0, ...Array.from(positions.values()).map((p) => p.x + NODE_WIDTH));
+  const height = Math.max(0, ...Array.from(positions.values()).map((p) => p.y + NODE_HEIGHT));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="relative w-full max-w-5xl mx-4 bg-gray-900 rounded-2xl overflow-hidden ring-1 ring-gray-800"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-800/60">
+          <div>
+            <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+              <GitBranch className="w-5 h-5 text-indigo-400" />
+              Lineage
+            </h3>
+            <p className="text-sm text-gray-500">
+              Click an asset to show its lineage
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-xl transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-auto max-h-[70vh]">
+          {loading && !graph && (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-2 border-indigo-500/30 border-t-indigo-500 rounded-full animate-spin" />
+            </div>
+          )}
+
+          {error && (
+            <div className="p-4 bg-red-950/50 border border-red-900/50 rounded-xl text-red-400 flex items-center gap-2">
+              <X className="w-5 h-5" />
+              {error}
+            </div>
+          )}
+
+          {graph && !error && (
+            <div className="relative" style={{ width, height }}>
+              {/* Edges from the right of each source to the left of its derived asset */}
+              <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+                {graph.edges.map(({ from, to }) => {
+                  const start = positions.get(from);
+                  const end = positions.get(to);
+                  if (!start || !end) return null;
+                  const x1 = start.x + NODE_WIDTH;
+                  const y1 = start.y + NODE_HEIGHT / 2;
+                  const x2 = end.x;
+                  const y2 = end.y + NODE_HEIGHT / 2;
+                  const mid = (x1 + x2) / 2;
+                  return (
+                    <path
+                      key={`${from}-${to}`}
+                      d={`M ${x1} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${x2} ${y2}`}
+                      fill="none"
+                      stroke="rgb(99 102 241 / 0.5)"
+                      strokeWidth={2}
+                    />
+                  );
+                })}
+              </svg>
+
+              {graph.nodes.map((node) => {
+                const position = positions.get(node.id);
+                if (!position) return null;
+                const isCurrent = node.id === graph.rootId;
+
+                return (
+                  <div
+                    key={node.id}
+                    className={`absolute rounded-lg overflow-hidden bg-gray-800 cursor-pointer transition-all ${
+                      isCurrent ? 'ring-2 ring-indigo-500' : 'hover:ring-2 hover:ring-gray-600'
+                    }`}
+                    style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                    onClick={() => setCurrentId(node.id)}
+                    onDoubleClick={() => node.type === 'model' && onOpenModel?.(node)}
+                    title={node.prompt || node.metadata.originalName || node.path}
+                  >
+                    <div className="h-24 bg-gray-900 flex items-center justify-center">
+                      {node.type === 'model' ? (
+                        <Box className="w-10 h-10 text-orange-500" />
+                      ) : (
+                        <img src={node.path} alt={node.prompt || 'Asset'} className="w-full h-full object-contain" />
+                      )}
+                    </div>
+                    <div className="px-2 py-1.5">
+                      <p className="text-xs font-medium text-gray-300">{typeLabels[node.type]}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {node.prompt || node.metadata.originalName || 'No description'}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-800/60">
+          <p className="text-xs text-gray-500">
+            {graph ? `${graph.nodes.length} asset${graph.nodes.length !== 1 ? 's' : ''} · ` : ''}
+            {onOpenModel ? 'Double-click a model to view it' : ''}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { useState } from 'react';
 import { ImagePreview } from '../ui/ImagePreview';
 import { StepActions } from './StepWizard';
+import { startJob, getJobAsset, getJobErrorMessage } from '@/lib/jobs/client';
+import { useJobEvents } from '@/lib/hooks/useJobEvents';
 
 interface Asset {
   id: string;
@@ -27,45 +29,46 @@ export function BackgroundRemovalStep({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [resultAsset, setResultAsset] = useState<Asset | null>(null);
-  const [progress, setProgress] = useState(0);
+  const [jobId, setJobId] = useState<string | null>(null);
 
-  const handleRemoveBackground = async () => {
+  const { progress, message } = useJobEvents(jobId, {
+    onComplete: (job) => {
+      setResultAsset({
+        ...getJobAsset(job, 'no-bg'),
+        prompt: inputAsset.prompt,
+      });
+      setLoading(false);
+      setJobId(null);
+    },
+    onError: (job) => {
+      setError(getJobErrorMessage(job, 'Failed to remove background'));
+      setLoading(false);
+      setJobId(null);
+    },
+    onConnectionError: (message) => {
+      setError(message);
+      setLoading(false);
+      setJobId(null);
+    },
+  });
+
+  const handleRemoveBackground = async (force = false) => {
     setLoading(true);
     setError(null);
-    setProgress(10);
 
     try {
-      const response = await fetch('/api/remove-bg', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ assetId: inputAsset.id }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to remove background');
-      }
-
-      setResultAsset({
-        id: data.asset.id,
-        path: data.asset.path,
-        type: data.asset.type,
-        prompt: inputAsset.prompt,
-      });
-      setProgress(100);
+      const job = await startJob('/api/remove-bg', { assetId: inputAsset.id, force });
+      setJobId(job.id);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to remove background');
-    } finally {
       setLoading(false);
     }
   };
 
   const handleRetry = () => {
     setResultAsset(null);
-    setProgress(0);
     setError(null);
-    handleRemoveBackground();
+    handleRemoveBackground(true);
   };
 
   const handleContinue = () => {
@@ -99,7 +102,7 @@ export function BackgroundRemovalStep({
                   Click the button below to remove the background, or skip this step if your image already has a transparent background.
                 </p>
                 <button
-                  onClick={handleRemoveBackground}
+                  onClick={() => handleRemoveBackground()}
                   className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                 >
                   Remove Background
@@ -110,7 +113,7 @@ export function BackgroundRemovalStep({
             {loading && (
               <div className="text-center">
                 <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
-                <p className="text-gray-400">Removing background...</p>
+                <p className="text-gray-400">{message || 'Removing background...'}</p>
               </div>
             )}
           </div>
@@ -1,6 +1,10 @@
 'use client';
 
 import { useState } from 'react';
+import { startJob, getJobErrorMessage, describeError } from '@/lib/jobs/client';
+import { useJobEvents } from '@/lib/hooks/useJobEvents';
+import type { Job } from '@/lib/storage/jobs';
+import type { ServiceErrorCode } from '@/lib/services/errors';
 
 interface BulkItem {
   prompt?: string;
@@ -10,10 +14,12 @@ interface BulkItem {
 
 interface BulkResult {
   index: number;
+  jobId: string;
   success: boolean;
   assetId?: string;
   modelPath?: string;
   error?: string;
+  errorCode?: ServiceErrorCode;
 }
 
 interface BulkProcessorProps {
@@ -26,7 +32,31 @@ export function BulkProcessor({ onClose }: BulkProcessorProps) {
   const [loading, setLoading] = useState(false);
   const [results, setResults] = useState<BulkResult[] | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [bulkJobId, setBulkJobId] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+
+  const handleFinished = (job: Job) => {
+    setResults(job.output?.results ?? []);
+    if (job.status === 'cancelled') {
+      setError('Bulk processing was cancelled');
+    } else if (!job.output?.results) {
+      setError(getJobErrorMessage(job, 'Bulk processing failed'));
+    }
+    setLoading(false);
+    setJobId(null);
+  };
+
+  const { progress: percent } = useJobEvents(jobId, {
+    onComplete: handleFinished,
+    onError: handleFinished,
+    onConnectionError: (message) => {
+      setError(message);
+      setLoading(false);
+      setJobId(null);
+    },
+  });
+  const progress = { current: Math.round((percent / 100) * total), total };
 
   const steps = [
     { id: 'generate', label: 'Generate Image', description: 'Generate images from prompts' },
@@ -66,26 +96,29 @@ export function BulkProcessor({ onClose }: BulkProcessorProps) {
     setLoading(true);
     setError(null);
     setResults(null);
-    setProgress({ current: 0, total: items.length });
+    setTotal(items.length);
 
     try {
-      const response = await fetch('/api/bulk', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ items, steps: selectedSteps }),
-      });
+      const job = await startJob('/api/bulk', { items, steps: selectedSteps });
+      setBulkJobId(job.id);
+      setJobId(job.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Bulk processing failed');
+      setLoading(false);
+    }
+  };
 
-      const data = await response.json();
+  const handleRetryFailed = async () => {
+    if (!bulkJobId) return;
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Bulk processing failed');
-      }
+    setLoading(true);
+    setError(null);
 
-      setResults(data.results);
-      setProgress({ current: data.summary.total, total: data.summary.total });
+    try {
+      await startJob(`/api/bulk/${bulkJobId}/retry`, {});
+      setJobId(bulkJobId);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Bulk processing failed');
-    } finally {
+      setError(err instanceof Error ? err.message : 'Failed to retry items');
       setLoading(false);
     }
   };
@@ -209,14 +242,24 @@ export function BulkProcessor({ onClose }: BulkProcessorProps) {
             <div>
               <div className="flex items-center justify-between mb-3">
                 <h3 className="text-sm font-medium text-gray-400">Results</h3>
-                {results.some((r) => r.success && r.modelPath) && (
-                  <button
-                    onClick={handleDownloadAll}
-                    className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
-                  >
-                    Download All Models
-                  </button>
-                )}
+                <div className="flex gap-2">
+                  {!loading && results.some((r) => !r.success) && (
+                    <button
+                      onClick={handleRetryFailed}
+                      className="px-3 py-1 text-sm bg-gray-700 text-white rounded hover:bg-gray-600 transition-colors"
+                    >
+                      Retry Failed
+                    </button>
+                  )}
+                  {results.some((r) => r.success && r.modelPath) && (
+                    <button
+                      onClick={handleDownloadAll}
+                      className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
+                    >
+                      Download All Models
+                    </button>
+                  )}
+                </div>
               </div>
               <div className="space-y-2 max-h-60 overflow-y-auto">
                 {results.map((result, index) => (
@@ -244,7 +287,9 @@ export function BulkProcessor({ onClose }: BulkProcessorProps) {
                       )}
                     </div>
                     {result.error && (
-                      <p className="text-sm text-red-400 mt-1">{result.error}</p>
+                      <p className="text-sm text-red-400 mt-1" title={result.error}>
+                        {describeError(result.errorCode, result.error, 'Item failed')}
+                      </p>
                     )}
                   </div>
                 ))}
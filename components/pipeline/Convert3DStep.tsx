@@ -4,6 +4,9 @@ import { useState } from 'react';
 import dynamic from 'next/dynamic';
 import { ImagePreview } from '../ui/ImagePreview';
 import { StepActions } from './StepWizard';
+import { startJob, requestJobCancel, getJobErrorMessage } from '@/lib/jobs/client';
+import { useJobEvents } from '@/lib/hooks/useJobEvents';
+import type { BulkItemResult } from '@/lib/storage/jobs';
 
 const ModelViewer = dynamic(
   () => import('../ui/ModelViewer').then((mod) => mod.ModelViewer),
@@ -25,6 +28,15 @@ interface Asset {
   prompt?: string;
 }
 
+const VARIANT_COUNTS = [1, 2, 4];
+
+function describeVariant(variant?: Record<string, number>): string {
+  if (!variant) return '';
+  return Object.entries(variant)
+    .map(([key, value]) => `${key === 'seed' ? 'seed' : key.replace(/_/g, ' ')} ${value}`)
+    .join(' · ');
+}
+
 interface Convert3DStepProps {
   inputAsset: Asset;
   onComplete: (modelPath: string) => void;
@@ -41,43 +53,110 @@ export function Convert3DStep({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [modelPath, setModelPath] = useState<string | null>(null);
-  const [progress, setProgress] = useState(0);
-  const [progressMessage, setProgressMessage] = useState('');
+  const [seed, setSeed] = useState<number | undefined>(undefined);
+  const [variantCount, setVariantCount] = useState(1);
+  const [variants, setVariants] = useState<BulkItemResult[] | null>(null);
+  const [keeping, setKeeping] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
 
-  const handleConvert = async () => {
+  const { progress, message: progressMessage } = useJobEvents(jobId, {
+    onComplete: (job) => {
+      // A variant run finishes with one result per child job
+      if (job.output?.results) {
+        const finished = job.output.results.filter((result) => result.success && result.modelPath);
+        setVariants(finished);
+        setWarnings(Array.from(new Set(finished.flatMap((result) => result.warnings ?? []))));
+      } else {
+        setModelPath(job.output?.modelPath || null);
+        setSeed(job.output?.seed);
+        setWarnings(job.output?.warnings ?? []);
+      }
+      setLoading(false);
+      setJobId(null);
+    },
+    onError: (job) => {
+      setError(getJobErrorMessage(job, 'Failed to convert to 3D'));
+      setLoading(false);
+      setJobId(null);
+    },
+    onConnectionError: (message) => {
+      setError(message);
+      setLoading(false);
+      setJobId(null);
+    },
+  });
+
+  // Retries pass force so a cached result is never handed back as a new run
+  const handleConvert = async (force = false) => {
     setLoading(true);
     setError(null);
-    setProgress(10);
-    setProgressMessage('Starting 3D conversion...');
+    setWarnings([]);
 
     try {
-      const response = await fetch('/api/convert-3d', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ assetId: inputAsset.id }),
+      const job = await startJob('/api/convert-3d', {
+        assetId: inputAsset.id,
+        force,
+        ...(variantCount > 1 ? { variants: variantCount } : {}),
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to convert to 3D');
-      }
-
-      setModelPath(data.modelPath);
-      setProgress(100);
-      setProgressMessage('3D model generated successfully!');
+      setJobId(job.id);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to convert to 3D');
-    } finally {
       setLoading(false);
     }
   };
 
+  const handleCancel = async () => {
+    if (!jobId) return;
+    try {
+      await requestJobCancel(jobId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel conversion');
+    }
+  };
+
   const handleRetry = () => {
     setModelPath(null);
-    setProgress(0);
+    setVariants(null);
     setError(null);
-    handleConvert();
+    handleConvert(true);
+  };
+
+  // Keep the chosen variant and delete the models of the others. Variants
+  // can share an asset through the cache, so the winner's is never deleted.
+  const handleKeep = async (winner: BulkItemResult) => {
+    if (!variants) return;
+    setKeeping(true);
+    setError(null);
+
+    const discarded = new Set(
+      variants
+        .map((variant) => variant.assetId)
+        .filter((assetId): assetId is string => !!assetId && assetId !== winner.assetId)
+    );
+
+    try {
+      await Promise.all(
+        Array.from(discarded).map(async (assetId) => {
+          const response = await fetch('/api/assets', {
+            method: 'DELETE',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id: assetId }),
+          });
+          if (!response.ok) {
+            throw new Error('Failed to discard variant');
+          }
+        })
+      );
+      setModelPath(winner.modelPath || null);
+      setSeed(winner.variant?.seed);
+      setWarnings(winner.warnings ?? []);
+      setVariants(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discard variants');
+    } finally {
+      setKeeping(false);
+    }
   };
 
   const handleDownload = () => {
@@ -100,7 +179,30 @@ export function Convert3DStep({
         </p>
       </div>
 
-      {!modelPath ? (
+      {variants ? (
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-400">
+            Pick the best of {variants.length} variant{variants.length !== 1 ? 's' : ''}; the others are discarded
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {variants.map((variant) => (
+              <div key={variant.jobId} className="bg-gray-800 rounded-lg overflow-hidden">
+                <ModelViewer url={variant.modelPath!} className="aspect-square" />
+                <div className="flex items-center justify-between p-3">
+                  <span className="text-xs font-mono text-gray-400">{describeVariant(variant.variant)}</span>
+                  <button
+                    onClick={() => handleKeep(variant)}
+                    disabled={keeping}
+                    className="px-4 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    Keep
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : !modelPath ? (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div>
             <h3 className="text-sm font-medium text-gray-400 mb-2">Input Image</h3>
@@ -115,11 +217,27 @@ export function Convert3DStep({
                 <p className="text-gray-400 mb-4 text-center">
                   Click the button below to convert your image to a 3D model. This may take a few minutes.
                 </p>
+                <div className="flex items-center gap-2 mb-4">
+                  <span className="text-sm text-gray-400">Variants</span>
+                  {VARIANT_COUNTS.map((count) => (
+                    <button
+                      key={count}
+                      onClick={() => setVariantCount(count)}
+                      className={`px-3 py-1 rounded text-sm transition-colors ${
+                        variantCount === count
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      }`}
+                    >
+                      {count}
+                    </button>
+                  ))}
+                </div>
                 <button
-                  onClick={handleConvert}
+                  onClick={() => handleConvert()}
                   className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                 >
-                  Convert to 3D
+                  {variantCount > 1 ? `Convert ${variantCount} Variants` : 'Convert to 3D'}
                 </button>
               </>
             )}
@@ -127,13 +245,21 @@ export function Convert3DStep({
             {loading && (
               <div className="text-center w-full">
                 <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
-                <p className="text-gray-400 mb-2">{progressMessage}</p>
+                <p className="text-gray-400 mb-2">{progressMessage || 'Starting 3D conversion...'}</p>
                 <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
                   <div
                     className="h-full bg-blue-600 transition-all duration-300 animate-pulse"
                     style={{ width: `${Math.max(progress, 20)}%` }}
                   />
                 </div>
+                {jobId && (
+                  <button
+                    onClick={handleCancel}
+                    className="mt-4 px-4 py-1 bg-gray-700 text-white rounded hover:bg-gray-600 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -148,12 +274,25 @@ export function Convert3DStep({
             />
           </div>
           <div>
-            <h3 className="text-sm font-medium text-gray-400 mb-2">3D Model</h3>
+            <h3 className="text-sm font-medium text-gray-400 mb-2">
+              3D Model
+              {seed !== undefined && <span className="ml-2 font-mono text-gray-500">seed {seed}</span>}
+            </h3>
             <ModelViewer url={modelPath} className="aspect-square" />
           </div>
         </div>
       )}
 
+      {/* Input warnings */}
+      {warnings.map((warning) => (
+        <div
+          key={warning}
+          className="p-3 bg-amber-900/30 border border-amber-700/50 rounded-lg text-amber-200 text-sm"
+        >
+          {warning}
+        </div>
+      ))}
+
       {/* Error display */}
       {error && (
         <div className="p-4 bg-red-900/50 border border-red-700 rounded-lg text-red-200 flex items-center justify-between">
@@ -206,7 +345,7 @@ export function Convert3DStep({
 
       <StepActions
         onBack={onBack}
-        showBack={!loading && !modelPath}
+        showBack={!loading && !modelPath && !variants}
         loading={loading}
       />
     </div>
@@ -4,6 +4,7 @@ import { useState, useRef } from 'react';
 import { PromptInput } from '../ui/PromptInput';
 import { ImagePreview } from '../ui/ImagePreview';
 import { StepActions } from './StepWizard';
+import { runJob, getJobAsset } from '@/lib/jobs/client';
 
 interface Asset {
   id: string;
@@ -52,22 +53,13 @@ export function ImageGenStep({
     setProgress(10);
 
     try {
-      const response = await fetch('/api/generate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt }),
+      // Every submission is a fresh run, including regenerating the same prompt
+      const job = await runJob('/api/generate', { prompt, force: true }, {
+        onProgress: (value) => setProgress(value),
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to generate image');
-      }
-
       setUploadedAsset({
-        id: data.asset.id,
-        path: data.asset.path,
-        type: data.asset.type,
+        ...getJobAsset(job, 'generated'),
         prompt,
       });
       setEnhanceState('none');
@@ -123,25 +115,15 @@ export function ImageGenStep({
     setEnhanceState('enhancing');
 
     try {
-      const response = await fetch('/api/enhance', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          assetId: uploadedAsset.id,
-          prompt: enhancePrompt || undefined,
-        }),
+      const job = await runJob('/api/enhance', {
+        assetId: uploadedAsset.id,
+        prompt: enhancePrompt || undefined,
+      }, {
+        onProgress: (value) => setProgress(value),
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to enhance image');
-      }
-
       setEnhancedAsset({
-        id: data.asset.id,
-        path: data.asset.path,
-        type: data.asset.type,
+        ...getJobAsset(job, 'generated'),
         prompt: enhancePrompt || 'Enhanced image',
       });
       setEnhanceState('done');
@@ -2,11 +2,19 @@
 
 import { useState } from 'react';
 import { TrellisSettings as TrellisSettingsType } from '@/lib/services/base';
-import { ChevronDown, ChevronRight, Zap, Scale, Gem, Camera } from 'lucide-react';
+import { ChevronDown, ChevronRight, Zap, Scale, Gem, Camera, Dices, Lock, LockOpen } from 'lucide-react';
 
 interface TrellisSettingsProps {
   settings: TrellisSettingsType;
   onChange: (settings: TrellisSettingsType) => void;
+  /** Seed the last generation used, offered when locking the seed */
+  lastSeed?: number;
+}
+
+const MAX_SEED = 1000000;
+
+function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
 }
 
 type Preset = 'fast' | 'balanced' | 'highQuality' | 'photorealistic';
@@ -211,11 +219,19 @@ function CollapsibleSection({ title, icon, children, defaultOpen = false }: Coll
   );
 }
 
-export function TrellisSettings({ settings, onChange }: TrellisSettingsProps) {
+export function TrellisSettings({ settings, onChange, lastSeed }: TrellisSettingsProps) {
   const update = (key: keyof TrellisSettingsType, value: number | boolean) => {
     onChange({ ...settings, [key]: value });
   };
 
+  // Presets never carry a seed, so compare without it
+  const { seed, ...tuning } = settings;
+  const seedLocked = seed !== undefined;
+
+  const setSeed = (value: number | undefined) => {
+    onChange({ ...tuning, ...(value === undefined ? {} : { seed: value }) });
+  };
+
   return (
     <div className="p-4 space-y-4">
       <div className="flex items-center justify-between mb-2">
@@ -225,9 +241,9 @@ export function TrellisSettings({ settings, onChange }: TrellisSettingsProps) {
       {/* Preset Buttons */}
       <div className="grid grid-cols-4 gap-1.5">
         <button
-          onClick={() => onChange({ ...PRESETS.fast })}
+          onClick={() => onChange({ seed, ...PRESETS.fast })}
           className={`group relative flex flex-col items-center gap-1 p-2 rounded-lg transition-all ${
-            JSON.stringify(settings) === JSON.stringify(PRESETS.fast)
+            JSON.stringify(tuning) === JSON.stringify(PRESETS.fast)
               ? 'bg-indigo-500 text-white shadow-lg shadow-indigo-500/30'
               : 'bg-gray-800/50 text-gray-400 hover:bg-gray-700/50 hover:text-gray-300'
           }`}
@@ -237,9 +253,9 @@ export function TrellisSettings({ settings, onChange }: TrellisSettingsProps) {
           <span className="text-xs font-medium">Fast</span>
         </button>
         <button
-          onClick={() => onChange({ ...PRESETS.balanced })}
+          onClick={() => onChange({ seed, ...PRESETS.balanced })}
           className={`group relative flex flex-col items-center gap-1 p-2 rounded-lg transition-all ${
-            JSON.stringify(settings) === JSON.stringify(PRESETS.balanced)
+            JSON.stringify(tuning) === JSON.stringify(PRESETS.balanced)
               ? 'bg-indigo-500 text-white shadow-lg shadow-indigo-500/30'
               : 'bg-gray-800/50 text-gray-400 hover:bg-gray-700/50 hover:text-gray-300'
           }`}
@@ -249,9 +265,9 @@ export function TrellisSettings({ settings, onChange }: TrellisSettingsProps) {
           <span className="text-xs font-medium">Balanced</span>
         </button>
         <button
-          onClick={() => onChange({ ...PRESETS.highQuality })}
+          onClick={() => onChange({ seed, ...PRESETS.highQuality })}
           className={`group relative flex flex-col items-center gap-1 p-2 rounded-lg transition-all ${
-            JSON.stringify(settings) === JSON.stringify(PRESETS.highQuality)
+            JSON.stringify(tuning) === JSON.stringify(PRESETS.highQuality)
               ? 'bg-indigo-500 text-white shadow-lg shadow-indigo-500/30'
               : 'bg-gray-800/50 text-gray-400 hover:bg-gray-700/50 hover:text-gray-300'
           }`}
@@ -261,9 +277,9 @@ export function TrellisSettings({ settings, onChange }: TrellisSettingsProps) {
           <span className="text-xs font-medium">Quality</span>
         </button>
         <button
-          onClick={() => onChange({ ...PRESETS.photorealistic })}
+          onClick={() => onChange({ seed, ...PRESETS.photorealistic })}
           className={`group relative flex flex-col items-center gap-1 p-2 rounded-lg transition-all ${
-            JSON.stringify(settings) === JSON.stringify(PRESETS.photorealistic)
+            JSON.stringify(tuning) === JSON.stringify(PRESETS.photorealistic)
               ? 'bg-indigo-500 text-white shadow-lg shadow-indigo-500/30'
               : 'bg-gray-800/50 text-gray-400 hover:bg-gray-700/50 hover:text-gray-300'
           }`}
@@ -275,22 +291,22 @@ export function TrellisSettings({ settings, onChange }: TrellisSettingsProps) {
       </div>
 
       {/* Preset info */}
-      {JSON.stringify(settings) === JSON.stringify(PRESETS.fast) && (
+      {JSON.stringify(tuning) === JSON.stringify(PRESETS.fast) && (
         <div className="text-xs text-gray-500 text-center bg-amber-500/10 border border-amber-500/20 rounded-lg py-2">
           <span className="text-amber-400 font-medium">Fast preset:</span> Draft quality • ~30s per generation
         </div>
       )}
-      {JSON.stringify(settings) === JSON.stringify(PRESETS.balanced) && (
+      {JSON.stringify(tuning) === JSON.stringify(PRESETS.balanced) && (
         <div className="text-xs text-gray-500 text-center bg-blue-500/10 border border-blue-500/20 rounded-lg py-2">
           <span className="text-blue-400 font-medium">Balanced preset:</span> Good balance • ~1-2m per generation
         </div>
       )}
-      {JSON.stringify(settings) === JSON.stringify(PRESETS.highQuality) && (
+      {JSON.stringify(tuning) === JSON.stringify(PRESETS.highQuality) && (
         <div className="text-xs text-gray-500 text-center bg-violet-500/10 border border-violet-500/20 rounded-lg py-2">
           <span className="text-violet-400 font-medium">High Quality preset:</span> Best detail • ~3-5m per generation
         </div>
       )}
-      {JSON.stringify(settings) === JSON.stringify(PRESETS.photorealistic) && (
+      {JSON.stringify(tuning) === JSON.stringify(PRESETS.photorealistic) && (
         <div className="text-xs text-gray-500 text-center bg-pink-500/10 border border-pink-500/20 rounded-lg py-2">
           <span className="text-pink-400 font-medium">Photorealistic preset:</span> Maximum realism • ~5-8m per generation
         </div>
@@ -333,6 +349,50 @@ export function TrellisSettings({ settings, onChange }: TrellisSettingsProps) {
         />
       </div>
 
+      {/* Seed */}
+      <div className="space-y-2 p-3 bg-gray-800/20 border border-gray-800/50 rounded-xl">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Seed</h3>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setSeed(seedLocked ? undefined : lastSeed ?? randomSeed())}
+              className={`p-1.5 rounded-lg transition-colors ${
+                seedLocked
+                  ? 'bg-indigo-500/20 text-indigo-400'
+                  : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800'
+              }`}
+              title={seedLocked ? 'Unlock seed' : 'Lock seed'}
+            >
+              {seedLocked ? <Lock className="w-3.5 h-3.5" /> : <LockOpen className="w-3.5 h-3.5" />}
+            </button>
+            <button
+              onClick={() => setSeed(randomSeed())}
+              className="p-1.5 rounded-lg text-gray-500 hover:text-gray-300 hover:bg-gray-800 transition-colors"
+              title="Reroll seed"
+            >
+              <Dices className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+        {seedLocked ? (
+          <input
+            type="number"
+            min={0}
+            max={MAX_SEED - 1}
+            value={seed}
+            onChange={(e) => {
+              const value = parseInt(e.target.value);
+              setSeed(Number.isNaN(value) ? 0 : Math.min(MAX_SEED - 1, Math.max(0, value)));
+            }}
+            className="w-full px-2.5 py-1.5 text-sm font-mono bg-gray-800/50 border border-gray-700/50 rounded-lg text-gray-300 focus:outline-none focus:border-indigo-500/50"
+          />
+        ) : (
+          <p className="text-xs text-gray-600">
+            Random each run{lastSeed !== undefined ? ` · last used ${lastSeed}` : ''}
+          </p>
+        )}
+      </div>
+
       {/* Advanced Settings */}
       <div className="space-y-3">
         <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide">
@@ -5,20 +5,31 @@ import { Download, ChevronDown } from 'lucide-react';
 import {
   CompressionLevel,
   COMPRESSION_TIERS,
+  TEXTURE_FORMATS,
+  TEXTURE_SIZES,
+  TextureFormat,
+  TextureMapType,
+  TextureSettings,
   estimateObjSize,
   formatBytes,
 } from '@/lib/utils/estimationUtils';
+import { EXPORT_FORMATS } from '@/lib/converters/formats';
+import type { ExportFormat } from '@/lib/converters/formats';
+
+const TEXTURE_MAP_LABELS: Record<TextureMapType, string> = {
+  baseColor: 'Base color',
+  normal: 'Normal',
+  metallicRoughness: 'Metal / rough',
+};
 
 export interface DownloadButtonProps {
-  assetType: 'glb' | 'obj';
   originalSizeBytes: number;
-  onDownload: (level: CompressionLevel) => Promise<void>;
+  onDownload: (format: ExportFormat, level: CompressionLevel, textures: TextureSettings) => Promise<void>;
   disabled?: boolean;
   className?: string;
 }
 
 export function DownloadButton({
-  assetType,
   originalSizeBytes,
   onDownload,
   disabled = false,
@@ -26,6 +37,8 @@ export function DownloadButton({
 }: DownloadButtonProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [downloading, setDownloading] = useState(false);
+  const [level, setLevel] = useState<CompressionLevel>('full');
+  const [textures, setTextures] = useState<TextureSettings>(COMPRESSION_TIERS.full.textures);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Close dropdown when clicking outside
@@ -42,44 +55,37 @@ export function DownloadButton({
     }
   }, [isOpen]);
 
-  const handleDownload = async (level: CompressionLevel) => {
+  // Each tier comes with its own texture defaults
+  const selectLevel = (tierLevel: CompressionLevel) => {
+    setLevel(tierLevel);
+    setTextures(COMPRESSION_TIERS[tierLevel].textures);
+  };
+
+  const handleDownload = async (format: ExportFormat, original = false) => {
     setIsOpen(false);
     setDownloading(true);
     try {
-      await onDownload(level);
+      if (original) {
+        await onDownload(format, 'full', COMPRESSION_TIERS.full.textures);
+      } else {
+        await onDownload(format, level, textures);
+      }
     } finally {
       setDownloading(false);
     }
   };
 
-  // Only show dropdown for OBJ (GLB downloads don't have compression options yet)
-  const showDropdown = assetType === 'obj';
-
-  if (!showDropdown) {
-    // Simple download button for non-OBJ assets
-    return (
-      <button
-        onClick={() => handleDownload('full')}
-        disabled={disabled || downloading}
-        className={`inline-flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${className}`}
-      >
-        <Download className="w-4 h-4" />
-        {downloading ? 'Downloading...' : `Download ${assetType.toUpperCase()}`}
-      </button>
-    );
-  }
-
   return (
     <div className="relative inline-block" ref={dropdownRef}>
       {/* Main button with dropdown toggle */}
       <div className="flex items-stretch">
         <button
-          onClick={() => handleDownload('full')}
+          onClick={() => handleDownload('glb', true)}
           disabled={disabled || downloading}
           className={`inline-flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-l-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${className}`}
         >
           <Download className="w-4 h-4" />
-          {downloading ? 'Downloading...' : 'Download OBJ'}
+          {downloading ? 'Downloading...' : 'Download GLB'}
         </button>
 
         <button
@@ -92,28 +98,31 @@ export function DownloadButton({
         </button>
       </div>
 
-      {/* Dropdown menu - positioned above button with same width */}
+      {/* Dropdown menu - positioned above the button */}
       {isOpen && (
-        <div className="absolute left-0 right-0 bottom-full mb-2 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-50 overflow-hidden">
+        <div className="absolute right-0 w-80 max-h-[70vh] overflow-y-auto bottom-full mb-2 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-50">
           <div className="p-2">
             <div className="px-3 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
               Download Quality
             </div>
 
-            {(Object.keys(COMPRESSION_TIERS) as CompressionLevel[]).map((level) => {
-              const tier = COMPRESSION_TIERS[level];
-              const estimatedSize = estimateObjSize(originalSizeBytes, level);
+            {(Object.keys(COMPRESSION_TIERS) as CompressionLevel[]).map((tierLevel) => {
+              const tier = COMPRESSION_TIERS[tierLevel];
+              const estimatedSize = estimateObjSize(originalSizeBytes, tierLevel);
               const isPremium = tier.premiumRequired;
+              const isSelected = tierLevel === level;
 
               return (
                 <button
-                  key={level}
-                  onClick={() => handleDownload(level)}
+                  key={tierLevel}
+                  onClick={() => selectLevel(tierLevel)}
                   disabled={isPremium || downloading}
                   className={`w-full text-left px-3 py-2.5 rounded-lg transition-colors ${
                     isPremium
                       ? 'bg-gray-800/50 cursor-not-allowed opacity-60'
-                      : 'hover:bg-gray-700/50'
+                      : isSelected
+                        ? 'bg-indigo-600/20 ring-1 ring-indigo-500/50'
+                        : 'hover:bg-gray-700/50'
                   }`}
                 >
                   <div className="flex items-center justify-between">
@@ -143,9 +152,85 @@ export function DownloadButton({
             })}
           </div>
 
+          <div className="p-2 border-t border-gray-700">
+            <div className="px-3 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+              Textures
+            </div>
+
+            <div className="px-3 space-y-2 text-sm">
+              <label className="flex items-center justify-between gap-2 text-gray-300">
+                Max size
+                <select
+                  value={textures.maxSize ?? ''}
+                  onChange={(e) =>
+                    setTextures({ ...textures, maxSize: e.target.value ? Number(e.target.value) : null })
+                  }
+                  className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white"
+                >
+                  <option value="">Original</option>
+                  {TEXTURE_SIZES.map((size) => (
+                    <option key={size} value={size}>
+                      {size}px
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex items-center justify-between gap-2 text-gray-300">
+                Encoding
+                <select
+                  value={textures.format}
+                  onChange={(e) => setTextures({ ...textures, format: e.target.value as TextureFormat })}
+                  className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white"
+                >
+                  {(Object.keys(TEXTURE_FORMATS) as TextureFormat[]).map((format) => (
+                    <option key={format} value={format}>
+                      {TEXTURE_FORMATS[format]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              {(Object.keys(TEXTURE_MAP_LABELS) as TextureMapType[]).map((map) => (
+                <label key={map} className="flex items-center justify-between gap-2 text-gray-300">
+                  <span className="w-24 shrink-0">{TEXTURE_MAP_LABELS[map]}</span>
+                  <input
+                    type="range"
+                    min={1}
+                    max={100}
+                    value={textures.quality[map]}
+                    onChange={(e) =>
+                      setTextures({ ...textures, quality: { ...textures.quality, [map]: Number(e.target.value) } })
+                    }
+                    className="flex-1 accent-indigo-500"
+                  />
+                  <span className="w-8 text-right text-gray-400">{textures.quality[map]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="p-2 border-t border-gray-700">
+            <div className="px-3 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+              Format
+            </div>
+
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleDownload(format)}
+                disabled={downloading}
+                className="w-full text-left px-3 py-2 rounded-lg hover:bg-gray-700/50 transition-colors"
+              >
+                <span className="font-medium text-white">{EXPORT_FORMATS[format].label}</span>
+                <span className="ml-2 text-xs text-gray-400">{EXPORT_FORMATS[format].description}</span>
+              </button>
+            ))}
+          </div>
+
           <div className="px-4 py-2 bg-gray-900/50 border-t border-gray-700">
             <p className="text-xs text-gray-500">
-              Size estimates are approximate and based on original GLB size.
+              Formats that can't hold the chosen texture encoding keep the original. Size estimates are approximate and based on original GLB size.
             </p>
           </div>
         </div>
@@ -0,0 +1,7 @@
+export async function register() {
+  // Resume queued bulk items and clean up jobs interrupted by a restart
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startQueue } = await import('./lib/jobs/queue');
+    startQueue();
+  }
+}
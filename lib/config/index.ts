@@ -1,6 +1,6 @@
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
-import { Config, ConfigSchema } from './schema';
+import { Config, ConfigSchema, MockConfig, RetryPolicy, RetryPolicySchema } from './schema';
 
 let cachedConfig: Config | null = null;
 
@@ -46,4 +46,28 @@ export function getFalApiKey(): string {
   return key;
 }
 
+/**
+ * Retry policy for a provider: the default policy with its overrides applied
+ */
+export function getRetryPolicy(provider: string): RetryPolicy {
+  const { retry } = getConfig();
+  return RetryPolicySchema.parse({ ...retry.default, ...retry.providers[provider] });
+}
+
+/**
+ * Mock provider settings. MOCK_PROVIDERS, MOCK_LATENCY_MS and
+ * MOCK_FAILURE_RATE override config.json.
+ */
+export function getMockConfig(): MockConfig {
+  const config = getConfig().services.mock;
+  const { MOCK_PROVIDERS, MOCK_LATENCY_MS, MOCK_FAILURE_RATE } = process.env;
+
+  return {
+    ...config,
+    enabled: MOCK_PROVIDERS ? MOCK_PROVIDERS === '1' || MOCK_PROVIDERS === 'true' : config.enabled,
+    latencyMs: MOCK_LATENCY_MS ? Number(MOCK_LATENCY_MS) : config.latencyMs,
+    failureRate: MOCK_FAILURE_RATE ? Number(MOCK_FAILURE_RATE) : config.failureRate,
+  };
+}
+
 export * from './schema';
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { SERVICE_ERROR_CODES } from '../services/errors';
 
 export const GeminiConfigSchema = z.object({
   model: z.string().default('gemini-2.5-flash-image'),
@@ -6,10 +7,39 @@ export const GeminiConfigSchema = z.object({
 });
 
 export const BriaConfigSchema = z.object({
+  enabled: z.boolean().default(true),
   preserveAlpha: z.boolean().default(false),
 });
 
+export const ImageGenConfigSchema = z.object({
+  provider: z.string().default('gemini'),
+});
+
+export const BackgroundRemovalConfigSchema = z.object({
+  provider: z.string().default('bria'),
+  // Used when the provider fails or is unavailable; null disables the fallback
+  fallback: z.string().nullable().default('local'),
+  tolerance: z.number().min(0).max(442).default(40),
+  feather: z.number().int().min(0).max(10).default(2),
+});
+
+export const ImageTo3DConfigSchema = z.object({
+  provider: z.string().default('trellis'),
+});
+
+export const MockConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  latencyMs: z.number().min(0).default(500),
+  failureRate: z.number().min(0).max(1).default(0),
+  failureCode: z.enum(SERVICE_ERROR_CODES).default('upstream-timeout'),
+  sampleModel: z.string().optional(),
+});
+
 export const ServicesConfigSchema = z.object({
+  imageGen: ImageGenConfigSchema.default({}),
+  backgroundRemoval: BackgroundRemovalConfigSchema.default({}),
+  imageTo3D: ImageTo3DConfigSchema.default({}),
+  mock: MockConfigSchema.default({}),
   gemini: GeminiConfigSchema.default({}),
   bria: BriaConfigSchema.default({}),
 });
@@ -19,21 +49,56 @@ export const BulkConfigSchema = z.object({
   retryAttempts: z.number().min(0).max(5).default(2),
 });
 
+export const RetryPolicySchema = z.object({
+  maxRetries: z.number().int().min(0).max(10).default(2),
+  baseDelayMs: z.number().min(0).default(1000),
+  maxDelayMs: z.number().min(0).default(30000),
+  multiplier: z.number().min(1).default(2),
+  // Share of each delay that is randomised: 0 for none, 1 for full jitter
+  jitter: z.number().min(0).max(1).default(0.5),
+  // Longest Retry-After hint worth waiting for; longer ones fail the request
+  maxRetryAfterMs: z.number().min(0).default(60000),
+});
+
+export const RetryConfigSchema = z.object({
+  default: RetryPolicySchema.default({}),
+  // Overrides keyed by provider name, e.g. "gemini" or "trellis"
+  providers: z.record(RetryPolicySchema.partial()).default({}),
+});
+
+export const RateLimitSchema = z.object({
+  requestsPerMinute: z.number().positive().default(60),
+  maxConcurrent: z.number().int().min(1).default(3),
+  // Requests allowed back to back before the per-minute rate applies; defaults to maxConcurrent
+  burst: z.number().int().min(1).optional(),
+});
+
 export const StorageConfigSchema = z.object({
   modelsDir: z.string().default('./models'),
   dataDir: z.string().default('./data'),
+  databaseFile: z.string().default('image2asset.db'),
   assetsDir: z.string().default('./public/assets'),
 });
 
 export const ConfigSchema = z.object({
   services: ServicesConfigSchema.default({}),
   bulk: BulkConfigSchema.default({}),
+  retry: RetryConfigSchema.default({}),
+  // Process-wide limits keyed by provider name; providers without an entry are unlimited
+  rateLimits: z.record(RateLimitSchema).default({}),
   storage: StorageConfigSchema.default({}),
 });
 
 export type GeminiConfig = z.infer<typeof GeminiConfigSchema>;
 export type BriaConfig = z.infer<typeof BriaConfigSchema>;
+export type ImageGenConfig = z.infer<typeof ImageGenConfigSchema>;
+export type BackgroundRemovalConfig = z.infer<typeof BackgroundRemovalConfigSchema>;
+export type ImageTo3DConfig = z.infer<typeof ImageTo3DConfigSchema>;
+export type MockConfig = z.infer<typeof MockConfigSchema>;
 export type ServicesConfig = z.infer<typeof ServicesConfigSchema>;
 export type BulkConfig = z.infer<typeof BulkConfigSchema>;
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>;
+export type RetryConfig = z.infer<typeof RetryConfigSchema>;
+export type RateLimit = z.infer<typeof RateLimitSchema>;
 export type StorageConfig = z.infer<typeof StorageConfigSchema>;
 export type Config = z.infer<typeof ConfigSchema>;
@@ -0,0 +1,75 @@
+import { Document, GLTF, Primitive } from '@gltf-transform/core';
+
+/**
+ * Small multi-node scene for export tests:
+ *
+ * - Parent: translated (10, 0, 0) and scaled (1, 2, 1), with a single
+ *   slanted triangle whose normal only survives the scale if it is
+ *   transformed by the inverse transpose
+ * - Child of Parent: translated (0, 0, 5) and rotated 90° about Z, with a
+ *   non-indexed triangle strip and an indexed triangle fan, both facing +Z
+ * - Mirrored: scaled (-1, 1, 1), reusing the slanted triangle, so its
+ *   winding has to be flipped
+ */
+export function createTransformedScene(): Document {
+  const document = new Document();
+  const buffer = document.createBuffer();
+  const material = document.createMaterial('Matte');
+
+  const primitive = (mode: GLTF.MeshPrimitiveMode, positions: number[], normals: number[], indices?: number[]) => {
+    const result = document
+      .createPrimitive()
+      .setMode(mode)
+      .setMaterial(material)
+      .setAttribute(
+        'POSITION',
+        document.createAccessor().setType('VEC3').setArray(new Float32Array(positions)).setBuffer(buffer)
+      )
+      .setAttribute(
+        'NORMAL',
+        document.createAccessor().setType('VEC3').setArray(new Float32Array(normals)).setBuffer(buffer)
+      );
+    if (indices) {
+      result.setIndices(
+        document.createAccessor().setType('SCALAR').setArray(new Uint16Array(indices)).setBuffer(buffer)
+      );
+    }
+    return result;
+  };
+
+  const slantedNormal = [0, -Math.SQRT1_2, Math.SQRT1_2];
+  const slanted = document.createMesh('Slanted').addPrimitive(
+    primitive(
+      Primitive.Mode.TRIANGLES,
+      [0, 0, 0, 1, 0, 0, 0, 1, 1],
+      [...slantedNormal, ...slantedNormal, ...slantedNormal]
+    )
+  );
+
+  const up = [0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1];
+  const panel = document
+    .createMesh('Panel')
+    .addPrimitive(
+      primitive(Primitive.Mode.TRIANGLE_STRIP, [0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0], up)
+    )
+    .addPrimitive(
+      primitive(Primitive.Mode.TRIANGLE_FAN, [0, 0, 1, 1, 0, 1, 1, 1, 1, 0, 1, 1], up, [0, 1, 2, 3])
+    );
+
+  const child = document
+    .createNode('Child')
+    .setTranslation([0, 0, 5])
+    .setRotation([0, 0, Math.SQRT1_2, Math.SQRT1_2])
+    .setMesh(panel);
+  const parent = document
+    .createNode('Parent')
+    .setTranslation([10, 0, 0])
+    .setScale([1, 2, 1])
+    .setMesh(slanted)
+    .addChild(child);
+  const mirrored = document.createNode('Mirrored').setScale([-1, 1, 1]).setMesh(slanted);
+
+  document.createScene('Scene').addChild(parent).addChild(mirrored);
+
+  return document;
+}
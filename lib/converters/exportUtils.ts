@@ -0,0 +1,95 @@
+import { Document, Material, Texture } from '@gltf-transform/core';
+import * as fs from 'fs/promises';
+import { CompressionLevel, TextureSettings } from '@/lib/utils/estimationUtils';
+import { compressMesh } from '@/lib/utils/compressionUtils';
+import { createNodeIO } from '@/lib/utils/gltfIOUtils';
+import { processTextures } from '@/lib/utils/textureUtils';
+
+export interface ExportedFile {
+  name: string;
+  data: Buffer;
+}
+
+/**
+ * Files produced by an exporter. The model file comes first; textures are
+ * referenced from it by file name relative to the model.
+ */
+export interface ExportResult {
+  files: ExportedFile[];
+}
+
+export interface ExportedTexture {
+  name: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+export type ExportProgress = (stage: string, progress: number) => void;
+
+const TEXTURE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/ktx2': 'ktx2',
+};
+
+/**
+ * Read a GLB and apply the mesh compression for a download tier, then
+ * resize and re-encode its textures when settings are given
+ */
+export async function loadModelDocument(
+  glbPath: string,
+  compressionLevel: CompressionLevel,
+  onProgress?: ExportProgress,
+  textures?: TextureSettings
+): Promise<Document> {
+  onProgress?.('Reading GLB file', 10);
+  const io = await createNodeIO();
+  const document = await io.readBinary(new Uint8Array(await fs.readFile(glbPath)));
+
+  if (compressionLevel !== 'full') {
+    onProgress?.('Compressing mesh', 30);
+    await compressMesh(document, { level: compressionLevel });
+  }
+
+  if (textures) {
+    await processTextures(document, textures, (stage, progress) =>
+      onProgress?.(stage, 40 + progress * 0.15)
+    );
+  }
+
+  return document;
+}
+
+/**
+ * Image data for every texture in the document, named texture_<index>.<ext>
+ * in document order so every format packages textures the same way
+ */
+export function extractTextures(document: Document): Map<Texture, ExportedTexture> {
+  const textures = new Map<Texture, ExportedTexture>();
+
+  document.getRoot().listTextures().forEach((texture, index) => {
+    const image = texture.getImage();
+    if (!image) return;
+
+    const mimeType = texture.getMimeType() || 'image/png';
+    const extension = TEXTURE_EXTENSIONS[mimeType] ?? 'png';
+    textures.set(texture, {
+      name: `texture_${index}.${extension}`,
+      mimeType,
+      data: Buffer.from(image),
+    });
+  });
+
+  return textures;
+}
+
+/**
+ * Stable material names, material_<index> in document order
+ */
+export function materialName(document: Document, material: Material | null): string {
+  if (!material) {
+    return 'default';
+  }
+  return `material_${document.getRoot().listMaterials().indexOf(material)}`;
+}
@@ -0,0 +1,67 @@
+import { Document } from '@gltf-transform/core';
+import { CompressionLevel, COMPRESSION_TIERS, TextureSettings } from '@/lib/utils/estimationUtils';
+import { convertGLBtoOBJ } from './gltfTransformConverter';
+import { ExportProgress, ExportResult, ExportedFile, loadModelDocument } from './exportUtils';
+import { EXPORT_FORMATS, ExportFormat } from './formats';
+import { exportToGLB } from './glbConverter';
+import { exportToFBX } from './fbxConverter';
+import { exportToPLY } from './plyConverter';
+import { exportToSTL } from './stlConverter';
+import { exportToUSDZ } from './usdzConverter';
+
+const DOCUMENT_EXPORTERS: Record<
+  Exclude<ExportFormat, 'obj'>,
+  (document: Document, baseName: string, onProgress?: ExportProgress) => ExportResult | Promise<ExportResult>
+> = {
+  glb: exportToGLB,
+  fbx: exportToFBX,
+  stl: exportToSTL,
+  ply: exportToPLY,
+  usdz: exportToUSDZ,
+};
+
+/**
+ * Texture settings a format can actually use: encodings it can't carry
+ * fall back to 'original', and formats without textures skip processing
+ */
+function textureSettingsFor(format: ExportFormat, settings: TextureSettings): TextureSettings | undefined {
+  const supported = EXPORT_FORMATS[format].textureFormats;
+  if (supported.length === 0) {
+    return undefined;
+  }
+  return supported.includes(settings.format) ? settings : { ...settings, format: 'original' };
+}
+
+/**
+ * Convert a GLB to the given format at a compression tier. The model file
+ * is named after baseName; textures keep their texture_<index> names.
+ * Texture settings default to the tier's.
+ */
+export async function exportModel(
+  glbPath: string,
+  format: ExportFormat,
+  compressionLevel: CompressionLevel,
+  baseName: string,
+  textures: TextureSettings = COMPRESSION_TIERS[compressionLevel].textures,
+  onProgress?: ExportProgress
+): Promise<ExportResult> {
+  const textureSettings = textureSettingsFor(format, textures);
+
+  if (format === 'obj') {
+    const { obj, mtl, textures: objTextures } = await convertGLBtoOBJ(
+      glbPath,
+      compressionLevel,
+      ({ stage, progress }) => onProgress?.(stage, progress),
+      textureSettings
+    );
+    const files: ExportedFile[] = [
+      { name: `${baseName}.obj`, data: Buffer.from(obj, 'utf8') },
+      { name: 'model.mtl', data: Buffer.from(mtl, 'utf8') },
+    ];
+    objTextures.forEach(({ name, data }) => files.push({ name, data }));
+    return { files };
+  }
+
+  const document = await loadModelDocument(glbPath, compressionLevel, onProgress, textureSettings);
+  return DOCUMENT_EXPORTERS[format](document, baseName, onProgress);
+}
@@ -0,0 +1,398 @@
+import { Document, Material, Texture } from '@gltf-transform/core';
+import { deflateSync } from 'zlib';
+import { collectWorldPrimitives } from '@/lib/utils/geometryUtils';
+import {
+  ExportResult,
+  ExportProgress,
+  ExportedFile,
+  ExportedTexture,
+  extractTextures,
+  materialName,
+} from './exportUtils';
+
+/**
+ * Binary FBX 7.4 writer. Geometry is baked to world space with one Model
+ * per primitive; materials use the Phong properties every importer reads,
+ * with textures written next to the .fbx and referenced by relative path.
+ */
+
+const FBX_VERSION = 7400;
+const HEADER_MAGIC = Buffer.from('Kaydara FBX Binary  \x00\x1a\x00', 'binary');
+const FOOTER_ID = Buffer.from('fabcab09d0c8d466b176fb831cf7267e', 'hex');
+const FOOTER_MAGIC = Buffer.from('f85a8c6adef5d97eece90ce3758f290b', 'hex');
+const NULL_RECORD_BYTES = 13;
+
+type FbxProperty =
+  | ['I', number]
+  | ['L', number]
+  | ['D', number]
+  | ['C', boolean]
+  | ['S', string]
+  | ['i', ArrayLike<number>]
+  | ['d', ArrayLike<number>];
+
+interface FbxNode {
+  name: string;
+  properties: FbxProperty[];
+  children: FbxNode[];
+}
+
+function node(name: string, properties: FbxProperty[] = [], children: FbxNode[] = []): FbxNode {
+  return { name, properties, children };
+}
+
+// Property70 entry: name, type, sub-type, flags, then the value(s)
+function p70(name: string, type: string, subType: string, flags: string, ...values: FbxProperty[]): FbxNode {
+  return node('P', [['S', name], ['S', type], ['S', subType], ['S', flags], ...values]);
+}
+
+// Object names carry their class after a \x00\x01 separator
+function objectName(name: string, objectClass: string): string {
+  return `${name}\x00\x01${objectClass}`;
+}
+
+function encodeArray(type: 'i' | 'd', values: ArrayLike<number>): Buffer {
+  const raw = Buffer.alloc(values.length * (type === 'd' ? 8 : 4));
+  for (let i = 0; i < values.length; i++) {
+    if (type === 'd') {
+      raw.writeDoubleLE(values[i], i * 8);
+    } else {
+      raw.writeInt32LE(values[i], i * 4);
+    }
+  }
+
+  // Large arrays are zlib-compressed (encoding 1)
+  const compress = values.length > 16;
+  const data = compress ? deflateSync(raw) : raw;
+  const header = Buffer.alloc(13);
+  header.write(type, 0, 'ascii');
+  header.writeUInt32LE(values.length, 1);
+  header.writeUInt32LE(compress ? 1 : 0, 5);
+  header.writeUInt32LE(data.length, 9);
+  return Buffer.concat([header, data]);
+}
+
+function encodeProperty([type, value]: FbxProperty): Buffer {
+  switch (type) {
+    case 'I': {
+      const buffer = Buffer.alloc(5);
+      buffer.write('I', 0, 'ascii');
+      buffer.writeInt32LE(value, 1);
+      return buffer;
+    }
+    case 'L': {
+      const buffer = Buffer.alloc(9);
+      buffer.write('L', 0, 'ascii');
+      buffer.writeBigInt64LE(BigInt(value), 1);
+      return buffer;
+    }
+    case 'D': {
+      const buffer = Buffer.alloc(9);
+      buffer.write('D', 0, 'ascii');
+      buffer.writeDoubleLE(value, 1);
+      return buffer;
+    }
+    case 'C':
+      return Buffer.from([0x43, value ? 1 : 0]);
+    case 'S': {
+      const text = Buffer.from(value, 'utf8');
+      const header = Buffer.alloc(5);
+      header.write('S', 0, 'ascii');
+      header.writeUInt32LE(text.length, 1);
+      return Buffer.concat([header, text]);
+    }
+    case 'i':
+    case 'd':
+      return encodeArray(type, value);
+  }
+}
+
+/**
+ * Encode a node record at an absolute file offset. Each record starts with
+ * the offset of its end, so children are encoded first.
+ */
+function encodeNode(fbxNode: FbxNode, offset: number): Buffer {
+  const name = Buffer.from(fbxNode.name, 'ascii');
+  const properties = Buffer.concat(fbxNode.properties.map(encodeProperty));
+  const headerLength = 13 + name.length;
+
+  const parts: Buffer[] = [];
+  let end = offset + headerLength + properties.length;
+  fbxNode.children.forEach((child) => {
+    const encoded = encodeNode(child, end);
+    parts.push(encoded);
+    end += encoded.length;
+  });
+  // Nodes with neither properties nor children still close with a null record
+  if (fbxNode.children.length > 0 || fbxNode.properties.length === 0) {
+    parts.push(Buffer.alloc(NULL_RECORD_BYTES));
+    end += NULL_RECORD_BYTES;
+  }
+
+  const header = Buffer.alloc(headerLength);
+  header.writeUInt32LE(end, 0);
+  header.writeUInt32LE(fbxNode.properties.length, 4);
+  header.writeUInt32LE(properties.length, 8);
+  header.writeUInt8(name.length, 12);
+  name.copy(header, 13);
+
+  return Buffer.concat([header, properties, ...parts]);
+}
+
+function encodeDocument(nodes: FbxNode[]): Buffer {
+  const version = Buffer.alloc(4);
+  version.writeUInt32LE(FBX_VERSION);
+  const parts: Buffer[] = [HEADER_MAGIC, version];
+  let offset = HEADER_MAGIC.length + 4;
+
+  nodes.forEach((fbxNode) => {
+    const encoded = encodeNode(fbxNode, offset);
+    parts.push(encoded);
+    offset += encoded.length;
+  });
+  parts.push(Buffer.alloc(NULL_RECORD_BYTES), FOOTER_ID, Buffer.alloc(4));
+  offset += NULL_RECORD_BYTES + FOOTER_ID.length + 4;
+
+  // The footer version is aligned to 16 bytes, with at least one byte of padding
+  const padding = 16 - (offset % 16);
+  const footerVersion = Buffer.alloc(4);
+  footerVersion.writeUInt32LE(FBX_VERSION);
+  parts.push(Buffer.alloc(padding), footerVersion, Buffer.alloc(120), FOOTER_MAGIC);
+
+  return Buffer.concat(parts);
+}
+
+function materialNode(id: number, name: string, material: Material | null): FbxNode {
+  const [r, g, b, a] = material?.getBaseColorFactor() ?? [0.8, 0.8, 0.8, 1];
+  const [er, eg, eb] = material?.getEmissiveFactor() ?? [0, 0, 0];
+  const roughness = material?.getRoughnessFactor() ?? 1;
+  const metallic = material?.getMetallicFactor() ?? 0;
+
+  return node('Material', [['L', id], ['S', objectName(name, 'Material')], ['S', '']], [
+    node('Version', [['I', 102]]),
+    node('ShadingModel', [['S', 'phong']]),
+    node('MultiLayer', [['I', 0]]),
+    node('Properties70', [], [
+      p70('DiffuseColor', 'Color', '', 'A', ['D', r], ['D', g], ['D', b]),
+      p70('DiffuseFactor', 'Number', '', 'A', ['D', 1]),
+      p70('EmissiveColor', 'Color', '', 'A', ['D', er], ['D', eg], ['D', eb]),
+      p70('SpecularFactor', 'Number', '', 'A', ['D', metallic]),
+      p70('ShininessExponent', 'Number', '', 'A', ['D', (1 - roughness) * 100]),
+      p70('Opacity', 'Number', '', 'A', ['D', a]),
+    ]),
+  ]);
+}
+
+function textureNodes(textureId: number, videoId: number, texture: ExportedTexture): FbxNode[] {
+  return [
+    node('Texture', [['L', textureId], ['S', objectName(texture.name, 'Texture')], ['S', '']], [
+      node('Type', [['S', 'TextureVideoClip']]),
+      node('Version', [['I', 202]]),
+      node('TextureName', [['S', objectName(texture.name, 'Texture')]]),
+      node('Media', [['S', objectName(texture.name, 'Video')]]),
+      node('FileName', [['S', texture.name]]),
+      node('RelativeFilename', [['S', texture.name]]),
+    ]),
+    node('Video', [['L', videoId], ['S', objectName(texture.name, 'Video')], ['S', 'Clip']], [
+      node('Type', [['S', 'Clip']]),
+      node('Properties70', [], [p70('Path', 'KString', 'XRefUrl', '', ['S', texture.name])]),
+      node('Filename', [['S', texture.name]]),
+      node('RelativeFilename', [['S', texture.name]]),
+    ]),
+  ];
+}
+
+export function exportToFBX(
+  document: Document,
+  baseName: string,
+  onProgress?: ExportProgress
+): ExportResult {
+  onProgress?.('Writing FBX geometry', 60);
+
+  const primitives = collectWorldPrimitives(document);
+  const textures = extractTextures(document);
+
+  let nextId = 1000000;
+  const objects: FbxNode[] = [];
+  const connections: FbxNode[] = [];
+  const connect = (child: number, parent: number, property?: string) => {
+    connections.push(
+      node('C', property
+        ? [['S', 'OP'], ['L', child], ['L', parent], ['S', property]]
+        : [['S', 'OO'], ['L', child], ['L', parent]])
+    );
+  };
+
+  const materialIds = new Map<Material | null, number>();
+  const textureIds = new Map<Texture, number>();
+  const usedTextures: ExportedFile[] = [];
+
+  const textureId = (texture: Texture | null): number | null => {
+    const exported = texture ? textures.get(texture) : undefined;
+    if (!texture || !exported) return null;
+
+    let id = textureIds.get(texture);
+    if (id === undefined) {
+      id = nextId++;
+      const videoId = nextId++;
+      textureIds.set(texture, id);
+      objects.push(...textureNodes(id, videoId, exported));
+      connect(videoId, id);
+      usedTextures.push({ name: exported.name, data: exported.data });
+    }
+    return id;
+  };
+
+  const materialId = (material: Material | null): number => {
+    let id = materialIds.get(material);
+    if (id === undefined) {
+      id = nextId++;
+      materialIds.set(material, id);
+      objects.push(materialNode(id, materialName(document, material), material));
+
+      const slots: [Texture | null, string][] = [
+        [material?.getBaseColorTexture() ?? null, 'DiffuseColor'],
+        [material?.getNormalTexture() ?? null, 'NormalMap'],
+        [material?.getEmissiveTexture() ?? null, 'EmissiveColor'],
+      ];
+      slots.forEach(([texture, property]) => {
+        const texId = textureId(texture);
+        if (texId !== null) connect(texId, id!, property);
+      });
+    }
+    return id;
+  };
+
+  primitives.forEach((primitive, index) => {
+    const name = primitives.length > 1 ? `${primitive.name}_${index}` : primitive.name;
+    const geometryId = nextId++;
+    const modelId = nextId++;
+
+    // The last index of each polygon is stored as its bitwise complement
+    const polygonIndices = new Int32Array(primitive.indices.length);
+    for (let i = 0; i < primitive.indices.length; i++) {
+      polygonIndices[i] = i % 3 === 2 ? ~primitive.indices[i] : primitive.indices[i];
+    }
+
+    const layers: FbxNode[] = [];
+    const layerElements: FbxNode[] = [];
+
+    if (primitive.normals) {
+      layers.push(
+        node('LayerElementNormal', [['I', 0]], [
+          node('Version', [['I', 101]]),
+          node('Name', [['S', '']]),
+          node('MappingInformationType', [['S', 'ByVertice']]),
+          node('ReferenceInformationType', [['S', 'Direct']]),
+          node('Normals', [['d', primitive.normals]]),
+        ])
+      );
+      layerElements.push(
+        node('LayerElement', [], [
+          node('Type', [['S', 'LayerElementNormal']]),
+          node('TypedIndex', [['I', 0]]),
+        ])
+      );
+    }
+
+    if (primitive.uvs) {
+      // FBX texture coordinates have their origin at the bottom left
+      const uvs = new Float64Array(primitive.uvs.length);
+      for (let i = 0; i < uvs.length; i += 2) {
+        uvs[i] = primitive.uvs[i];
+        uvs[i + 1] = 1 - primitive.uvs[i + 1];
+      }
+      layers.push(
+        node('LayerElementUV', [['I', 0]], [
+          node('Version', [['I', 101]]),
+          node('Name', [['S', 'UVMap']]),
+          node('MappingInformationType', [['S', 'ByPolygonVertex']]),
+          node('ReferenceInformationType', [['S', 'IndexToDirect']]),
+          node('UV', [['d', uvs]]),
+          node('UVIndex', [['i', primitive.indices]]),
+        ])
+      );
+      layerElements.push(
+        node('LayerElement', [], [
+          node('Type', [['S', 'LayerElementUV']]),
+          node('TypedIndex', [['I', 0]]),
+        ])
+      );
+    }
+
+    layers.push(
+      node('LayerElementMaterial', [['I', 0]], [
+        node('Version', [['I', 101]]),
+        node('Name', [['S', '']]),
+        node('MappingInformationType', [['S', 'AllSame']]),
+        node('ReferenceInformationType', [['S', 'IndexToDirect']]),
+        node('Materials', [['i', [0]]]),
+      ])
+    );
+    layerElements.push(
+      node('LayerElement', [], [
+        node('Type', [['S', 'LayerElementMaterial']]),
+        node('TypedIndex', [['I', 0]]),
+      ])
+    );
+
+    objects.push(
+      node('Geometry', [['L', geometryId], ['S', objectName(name, 'Geometry')], ['S', 'Mesh']], [
+        node('Vertices', [['d', primitive.positions]]),
+        node('PolygonVertexIndex', [['i', polygonIndices]]),
+        node('GeometryVersion', [['I', 124]]),
+        ...layers,
+        node('Layer', [['I', 0]], [node('Version', [['I', 100]]), ...layerElements]),
+      ]),
+      node('Model', [['L', modelId], ['S', objectName(name, 'Model')], ['S', 'Mesh']], [
+        node('Version', [['I', 232]]),
+        node('Shading', [['C', true]]),
+        node('Culling', [['S', 'CullingOff']]),
+      ])
+    );
+
+    connect(modelId, 0);
+    connect(geometryId, modelId);
+    connect(materialId(primitive.material), modelId);
+  });
+
+  const count = (name: string) => objects.filter((object) => object.name === name).length;
+  const objectTypes = ['Model', 'Geometry', 'Material', 'Texture', 'Video'].map((name) =>
+    node('ObjectType', [['S', name]], [node('Count', [['I', count(name)]])])
+  );
+
+  const fbx = encodeDocument([
+    node('FBXHeaderExtension', [], [
+      node('FBXHeaderVersion', [['I', 1003]]),
+      node('FBXVersion', [['I', FBX_VERSION]]),
+      node('EncryptionType', [['I', 0]]),
+      node('Creator', [['S', 'image2asset']]),
+    ]),
+    node('Creator', [['S', 'image2asset']]),
+    // glTF is Y-up, +Z forward, right-handed, in metres
+    node('GlobalSettings', [], [
+      node('Version', [['I', 1000]]),
+      node('Properties70', [], [
+        p70('UpAxis', 'int', 'Integer', '', ['I', 1]),
+        p70('UpAxisSign', 'int', 'Integer', '', ['I', 1]),
+        p70('FrontAxis', 'int', 'Integer', '', ['I', 2]),
+        p70('FrontAxisSign', 'int', 'Integer', '', ['I', 1]),
+        p70('CoordAxis', 'int', 'Integer', '', ['I', 0]),
+        p70('CoordAxisSign', 'int', 'Integer', '', ['I', 1]),
+        p70('UnitScaleFactor', 'double', 'Number', '', ['D', 100]),
+      ]),
+    ]),
+    node('Definitions', [], [
+      node('Version', [['I', 100]]),
+      node('Count', [['I', objects.length + 1]]),
+      node('ObjectType', [['S', 'GlobalSettings']], [node('Count', [['I', 1]])]),
+      ...objectTypes,
+    ]),
+    node('Objects', [], objects),
+    node('Connections', [], connections),
+  ]);
+
+  onProgress?.('FBX export complete', 90);
+
+  return { files: [{ name: `${baseName}.fbx`, data: fbx }, ...usedTextures] };
+}
@@ -0,0 +1,74 @@
+import type { TextureFormat } from '@/lib/utils/estimationUtils';
+
+/**
+ * Download formats offered for models. Kept free of Node imports so client
+ * components can list them.
+ */
+
+export type ExportFormat = 'glb' | 'obj' | 'fbx' | 'stl' | 'ply' | 'usdz';
+
+export interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  description: string;
+  /** The exporter returns a single self-contained file, served as-is */
+  packaged: boolean;
+  mimeType: string;
+  /** Texture encodings the format can carry, empty when it has no textures */
+  textureFormats: TextureFormat[];
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  glb: {
+    label: 'GLB',
+    extension: 'glb',
+    description: 'Binary glTF with compressed textures',
+    packaged: true,
+    mimeType: 'model/gltf-binary',
+    textureFormats: ['original', 'webp', 'jpeg', 'ktx2'],
+  },
+  obj: {
+    label: 'OBJ',
+    extension: 'obj',
+    description: 'Wavefront OBJ with MTL materials and textures',
+    packaged: false,
+    mimeType: 'application/zip',
+    textureFormats: ['original', 'jpeg'],
+  },
+  fbx: {
+    label: 'FBX',
+    extension: 'fbx',
+    description: 'Binary FBX for game engines and DCC tools',
+    packaged: false,
+    mimeType: 'application/zip',
+    textureFormats: ['original', 'jpeg'],
+  },
+  stl: {
+    label: 'STL',
+    extension: 'stl',
+    description: 'Binary STL geometry for 3D printing',
+    packaged: false,
+    mimeType: 'application/zip',
+    textureFormats: [],
+  },
+  ply: {
+    label: 'PLY',
+    extension: 'ply',
+    description: 'Binary PLY with normals and UVs',
+    packaged: false,
+    mimeType: 'application/zip',
+    textureFormats: ['original', 'jpeg'],
+  },
+  usdz: {
+    label: 'USDZ',
+    extension: 'usdz',
+    description: 'USDZ for AR Quick Look on iOS',
+    packaged: true,
+    mimeType: 'model/vnd.usdz+zip',
+    textureFormats: ['original', 'jpeg'],
+  },
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value);
+}
@@ -0,0 +1,22 @@
+import { Document } from '@gltf-transform/core';
+import { createNodeIO } from '@/lib/utils/gltfIOUtils';
+import { ExportResult, ExportProgress } from './exportUtils';
+
+/**
+ * Write the processed document back out as a single GLB, with textures
+ * embedded in whatever encoding the texture settings produced
+ */
+export async function exportToGLB(
+  document: Document,
+  baseName: string,
+  onProgress?: ExportProgress
+): Promise<ExportResult> {
+  onProgress?.('Writing GLB', 60);
+
+  const io = await createNodeIO();
+  const glb = await io.writeBinary(document);
+
+  onProgress?.('GLB export complete', 90);
+
+  return { files: [{ name: `${baseName}.glb`, data: Buffer.from(glb) }] };
+}
@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { NodeIO } from '@gltf-transform/core';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { convertGLBtoOBJ } from './gltfTransformConverter';
+import { createTransformedScene } from './__fixtures__/transformedScene';
+
+// Mesh simplification is not exercised at the 'full' level, and loading it
+// pulls sharp's native image library in through @gltf-transform/functions
+vi.mock('@/lib/utils/compressionUtils', () => ({ compressMesh: vi.fn() }));
+
+type Vec3 = [number, number, number];
+
+interface ObjFace {
+  positions: Vec3[];
+  normals: Vec3[];
+}
+
+interface ObjGroup {
+  name: string;
+  faces: ObjFace[];
+}
+
+// Just enough of an OBJ reader to check what the exporter wrote
+function parseObj(obj: string): ObjGroup[] {
+  const positions: Vec3[] = [];
+  const normals: Vec3[] = [];
+  const groups: ObjGroup[] = [];
+
+  obj.split('\n').forEach((line) => {
+    const [keyword, ...values] = line.trim().split(/\s+/);
+    if (keyword === 'v') {
+      positions.push(values.map(Number) as Vec3);
+    } else if (keyword === 'vn') {
+      normals.push(values.map(Number) as Vec3);
+    } else if (keyword === 'o') {
+      groups.push({ name: values[0], faces: [] });
+    } else if (keyword === 'f') {
+      const refs = values.map((value) => value.split('/'));
+      groups[groups.length - 1].faces.push({
+        positions: refs.map(([v]) => positions[Number(v) - 1]),
+        normals: refs.map(([, , vn]) => normals[Number(vn) - 1]),
+      });
+    }
+  });
+
+  return groups;
+}
+
+function faceNormal([a, b, c]: Vec3[]): Vec3 {
+  const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+  const n: Vec3 = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+  const length = Math.hypot(...n);
+  return [n[0] / length, n[1] / length, n[2] / length];
+}
+
+function expectVec3(actual: Vec3, expected: Vec3) {
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 5));
+}
+
+function sortedVertices(group: ObjGroup): Vec3[] {
+  const unique = new Map<string, Vec3>();
+  group.faces.forEach((face) =>
+    face.positions.forEach((p) => unique.set(p.map((value) => value.toFixed(4)).join(' '), p))
+  );
+  return Array.from(unique.values()).sort((a, b) => a[0] - b[0] || a[1] - b[1] || a[2] - b[2]);
+}
+
+describe('convertGLBtoOBJ', () => {
+  let dir: string;
+  let groups: ObjGroup[];
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'obj-export-'));
+    const glbPath = path.join(dir, 'scene.glb');
+    await fs.writeFile(glbPath, await new NodeIO().writeBinary(createTransformedScene()));
+
+    const { obj } = await convertGLBtoOBJ(glbPath);
+    groups = parseObj(obj);
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes one group per mesh node in scene order', () => {
+    expect(groups.map((group) => group.name)).toEqual(['Parent', 'Child', 'Mirrored']);
+  });
+
+  it('expands triangle strips and fans', () => {
+    expect(groups.map((group) => group.faces.length)).toEqual([1, 4, 1]);
+  });
+
+  it('applies node transforms, including inherited ones, to positions', () => {
+    const [parent, child, mirrored] = groups;
+
+    expect(sortedVertices(parent)).toHaveLength(3);
+    sortedVertices(parent).forEach((p, i) =>
+      expectVec3(p, ([[10, 0, 0], [10, 2, 1], [11, 0, 0]] as Vec3[])[i])
+    );
+
+    const expectedChild: Vec3[] = [
+      [9, 0, 5], [9, 0, 6], [9, 2, 5], [9, 2, 6],
+      [10, 0, 5], [10, 0, 6], [10, 2, 5], [10, 2, 6],
+    ];
+    expect(sortedVertices(child)).toHaveLength(expectedChild.length);
+    sortedVertices(child).forEach((p, i) => expectVec3(p, expectedChild[i]));
+
+    sortedVertices(mirrored).forEach((p, i) =>
+      expectVec3(p, ([[-1, 0, 0], [0, 0, 0], [0, 1, 1]] as Vec3[])[i])
+    );
+  });
+
+  it('transforms normals by the inverse transpose under non-uniform scale', () => {
+    const expected: Vec3 = [0, -1 / Math.sqrt(5), 2 / Math.sqrt(5)];
+    groups[0].faces[0].normals.forEach((normal) => expectVec3(normal, expected));
+  });
+
+  it('keeps normals unit length and in agreement with face winding', () => {
+    groups.forEach((group) =>
+      group.faces.forEach((face) => {
+        const geometric = faceNormal(face.positions);
+        face.normals.forEach((normal) => {
+          expect(Math.hypot(...normal)).toBeCloseTo(1, 5);
+          expectVec3(normal, geometric);
+        });
+      })
+    );
+  });
+});
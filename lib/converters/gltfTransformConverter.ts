@@ -1,9 +1,11 @@
-import { Document, NodeIO } from '@gltf-transform/core';
+import { Document, Node, NodeIO } from '@gltf-transform/core';
 import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
 import * as fs from 'fs/promises';
 import JSZip from 'jszip';
-import { CompressionLevel } from '@/lib/utils/estimationUtils';
+import { CompressionLevel, TextureSettings } from '@/lib/utils/estimationUtils';
 import { compressMesh } from '@/lib/utils/compressionUtils';
+import { processTextures } from '@/lib/utils/textureUtils';
+import { collectWorldPrimitives } from '@/lib/utils/geometryUtils';
 
 export interface ConversionProgress {
   stage: string;
@@ -28,7 +30,8 @@ export interface ConversionError {
 export async function convertGLBtoOBJ(
   glbPath: string,
   compressionLevel: CompressionLevel = 'full',
-  onProgress?: (progress: ConversionProgress) => void
+  onProgress?: (progress: ConversionProgress) => void,
+  textureSettings?: TextureSettings
 ): Promise<{ obj: string; mtl: string; textures: Map<string, { name: string; data: Buffer }> }> {
   onProgress?.({ stage: 'Loading GLB model', progress: 0 });
 
@@ -75,6 +78,13 @@ export async function convertGLBtoOBJ(
       });
     }
 
+    // Resize and re-encode textures if requested
+    if (textureSettings) {
+      await processTextures(document, textureSettings, (stage) => {
+        onProgress?.({ stage, progress: 60 });
+      });
+    }
+
     onProgress?.({ stage: 'Extracting geometry and materials', progress: 60 });
 
     // Export to OBJ/MTL format
@@ -108,6 +118,7 @@ async function exportToOBJ(
   let vertexOffset = 0;
   let texCoordOffset = 0;
   let normalOffset = 0;
+  let hasDefaultMaterial = false;
 
   // Extract and process textures first
   const textureDefs = document.getRoot().listTextures();
@@ -137,110 +148,99 @@ async function exportToOBJ(
 
   // Write OBJ header
   objContent += '# OBJ file exported by gltf-transform\n';
-  objContent += `mtllib model.mtl\n\n`;
-
-  // Process all meshes
-  const meshes = document.getRoot().listMeshes();
-
-  for (const mesh of meshes) {
-    const primitives = mesh.listPrimitives();
-
-    for (const primitive of primitives) {
-      const material = primitive.getMaterial();
-
-      // Write material reference
-      if (material) {
-        const matIndex = document.getRoot().listMaterials().indexOf(material);
-        let matName = materialMap.get(matIndex);
+  objContent += `mtllib model.mtl\n`;
+
+  // Walk the scene graph so node transforms are applied
+  const primitives = collectWorldPrimitives(document, { includeLinesAndPoints: true });
+  const groupNames = new Set<string>();
+  let currentNode: Node | null | undefined;
+  let currentMaterial: string | undefined;
+
+  for (const primitive of primitives) {
+    // One object and group per mesh node
+    if (primitive.node !== currentNode) {
+      currentNode = primitive.node;
+      let groupName = primitive.name.replace(/\s+/g, '_');
+      for (let i = 1; groupNames.has(groupName); i++) {
+        groupName = `${primitive.name.replace(/\s+/g, '_')}_${i}`;
+      }
+      groupNames.add(groupName);
+      objContent += `\no ${groupName}\ng ${groupName}\n`;
+      currentMaterial = undefined;
+    }
 
-        if (!matName) {
-          matName = `material_${matIndex}`;
-          materialMap.set(matIndex, matName);
-          mtlContent += generateMTLMaterial(material, matIndex, textureMap, document);
-        }
+    // Write material reference
+    const material = primitive.material;
+    let matName = 'default';
+    if (material) {
+      const matIndex = document.getRoot().listMaterials().indexOf(material);
+      matName = materialMap.get(matIndex) ?? `material_${matIndex}`;
 
-        objContent += `usemtl ${matName}\n`;
+      if (!materialMap.has(matIndex)) {
+        materialMap.set(matIndex, matName);
+        mtlContent += generateMTLMaterial(material, matIndex, textureMap, document);
       }
+    } else if (!hasDefaultMaterial) {
+      hasDefaultMaterial = true;
+      mtlContent += 'newmtl default\nKd 0.8 0.8 0.8\nillum 1\n\n';
+    }
+    if (matName !== currentMaterial) {
+      objContent += `usemtl ${matName}\n`;
+      currentMaterial = matName;
+    }
 
-      // Get position attribute
-      const position = primitive.getAttribute('POSITION');
-      if (!position) continue;
+    const { positions, normals, uvs, indices } = primitive;
 
-      const positions = position.getArray();
-      const vertices: number[][] = [];
+    // Write world-space vertex positions
+    for (let i = 0; i < positions.length; i += 3) {
+      objContent += `v ${positions[i]} ${positions[i + 1]} ${positions[i + 2]}\n`;
+    }
 
-      // Write vertex positions
-      for (let i = 0; i < position.getCount(); i++) {
-        const x = positions![i * 3];
-        const y = positions![i * 3 + 1];
-        const z = positions![i * 3 + 2];
-        objContent += `v ${x} ${y} ${z}\n`;
-        vertices.push([vertexOffset + i + 1]);
+    // Write texture coordinates if present
+    if (uvs) {
+      for (let i = 0; i < uvs.length; i += 2) {
+        objContent += `vt ${uvs[i]} ${1 - uvs[i + 1]}\n`; // Flip V coordinate for OBJ
       }
+    }
 
-      // Write texture coordinates if present
-      const texcoord = primitive.getAttribute('TEXCOORD_0');
-      if (texcoord) {
-        const texcoords = texcoord.getArray();
-        for (let i = 0; i < texcoord.getCount(); i++) {
-          const u = texcoords![i * 2];
-          const v = 1 - texcoords![i * 2 + 1]; // Flip V coordinate for OBJ
-          objContent += `vt ${u} ${v}\n`;
-        }
+    // Write world-space normals if present
+    if (normals) {
+      for (let i = 0; i < normals.length; i += 3) {
+        objContent += `vn ${normals[i]} ${normals[i + 1]} ${normals[i + 2]}\n`;
       }
+    }
 
-      // Write normals if present
-      const normal = primitive.getAttribute('NORMAL');
-      if (normal) {
-        const normals = normal.getArray();
-        for (let i = 0; i < normal.getCount(); i++) {
-          const nx = normals![i * 3];
-          const ny = normals![i * 3 + 1];
-          const nz = normals![i * 3 + 2];
-          objContent += `vn ${nx} ${ny} ${nz}\n`;
-        }
+    // Positions, texture coordinates and normals are numbered independently
+    const vertexRef = (index: number) => {
+      const v = index + 1 + vertexOffset;
+      if (uvs && normals) return `${v}/${index + 1 + texCoordOffset}/${index + 1 + normalOffset}`;
+      if (uvs) return `${v}/${index + 1 + texCoordOffset}`;
+      if (normals) return `${v}//${index + 1 + normalOffset}`;
+      return `${v}`;
+    };
+
+    // Write faces, lines or points
+    if (primitive.mode === 'triangles') {
+      for (let i = 0; i < indices.length; i += 3) {
+        objContent += `f ${vertexRef(indices[i])} ${vertexRef(indices[i + 1])} ${vertexRef(indices[i + 2])}\n`;
       }
-
-      // Write face indices
-      const indices = primitive.getIndices();
-      if (indices) {
-        const indexArray = indices.getArray();
-        for (let i = 0; i < indexArray!.length; i += 3) {
-          const v1 = indexArray![i] + 1 + vertexOffset;
-          const v2 = indexArray![i + 1] + 1 + vertexOffset;
-          const v3 = indexArray![i + 2] + 1 + vertexOffset;
-
-          if (texcoord && normal) {
-            objContent += `f ${v1}/${v1}/${v1} ${v2}/${v2}/${v2} ${v3}/${v3}/${v3}\n`;
-          } else if (texcoord) {
-            objContent += `f ${v1}/${v1} ${v2}/${v2} ${v3}/${v3}\n`;
-          } else if (normal) {
-            objContent += `f ${v1}//${v1} ${v2}//${v2} ${v3}//${v3}\n`;
-          } else {
-            objContent += `f ${v1} ${v2} ${v3}\n`;
-          }
-        }
-      } else {
-        // No indices, use vertex positions directly
-        for (let i = 0; i < position.getCount(); i += 3) {
-          const v1 = vertexOffset + i + 1;
-          const v2 = vertexOffset + i + 2;
-          const v3 = vertexOffset + i + 3;
-
-          if (texcoord && normal) {
-            objContent += `f ${v1}/${v1}/${v1} ${v2}/${v2}/${v2} ${v3}/${v3}/${v3}\n`;
-          } else if (texcoord) {
-            objContent += `f ${v1}/${v1} ${v2}/${v2} ${v3}/${v3}\n`;
-          } else if (normal) {
-            objContent += `f ${v1}//${v1} ${v2}//${v2} ${v3}//${v3}\n`;
-          } else {
-            objContent += `f ${v1} ${v2} ${v3}\n`;
-          }
-        }
+    } else if (primitive.mode === 'lines') {
+      for (let i = 0; i < indices.length; i += 2) {
+        const a = indices[i] + 1 + vertexOffset;
+        const b = indices[i + 1] + 1 + vertexOffset;
+        objContent += uvs
+          ? `l ${a}/${indices[i] + 1 + texCoordOffset} ${b}/${indices[i + 1] + 1 + texCoordOffset}\n`
+          : `l ${a} ${b}\n`;
+      }
+    } else {
+      for (let i = 0; i < indices.length; i++) {
+        objContent += `p ${indices[i] + 1 + vertexOffset}\n`;
       }
-
-      vertexOffset += position.getCount();
     }
+
+    vertexOffset += positions.length / 3;
+    texCoordOffset += uvs ? uvs.length / 2 : 0;
+    normalOffset += normals ? normals.length / 3 : 0;
   }
 
   onProgress?.({ stage: 'OBJ export complete', progress: 90 });
@@ -0,0 +1,90 @@
+import { Document } from '@gltf-transform/core';
+import { collectWorldPrimitives } from '@/lib/utils/geometryUtils';
+import { ExportResult, ExportProgress, ExportedFile, extractTextures } from './exportUtils';
+
+/**
+ * Export the scene as a single binary little-endian PLY mesh in world
+ * space. Normals and texture coordinates are written when any primitive
+ * has them, and the first base colour texture is referenced with the
+ * MeshLab TextureFile comment, since PLY has no material model.
+ */
+export function exportToPLY(
+  document: Document,
+  baseName: string,
+  onProgress?: ExportProgress
+): ExportResult {
+  onProgress?.('Writing PLY geometry', 60);
+
+  const primitives = collectWorldPrimitives(document);
+  const hasNormals = primitives.some((primitive) => primitive.normals);
+  const hasUVs = primitives.some((primitive) => primitive.uvs);
+
+  const textures = extractTextures(document);
+  const baseColorTexture = primitives
+    .map((primitive) => primitive.material?.getBaseColorTexture())
+    .find((texture) => texture && textures.has(texture));
+  const texture = baseColorTexture ? textures.get(baseColorTexture) : undefined;
+
+  const vertexCount = primitives.reduce((sum, p) => sum + p.positions.length / 3, 0);
+  const faceCount = primitives.reduce((sum, p) => sum + p.indices.length / 3, 0);
+
+  const header = [
+    'ply',
+    'format binary_little_endian 1.0',
+    'comment Exported by image2asset',
+    ...(texture ? [`comment TextureFile ${texture.name}`] : []),
+    `element vertex ${vertexCount}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    ...(hasNormals ? ['property float nx', 'property float ny', 'property float nz'] : []),
+    ...(hasUVs ? ['property float s', 'property float t'] : []),
+    `element face ${faceCount}`,
+    'property list uchar uint vertex_indices',
+    'end_header',
+    '',
+  ].join('\n');
+
+  const vertexStride = 4 * (3 + (hasNormals ? 3 : 0) + (hasUVs ? 2 : 0));
+  const headerBytes = Buffer.from(header, 'ascii');
+  const body = Buffer.alloc(vertexCount * vertexStride + faceCount * 13);
+
+  let offset = 0;
+  primitives.forEach(({ positions, normals, uvs }) => {
+    const count = positions.length / 3;
+    for (let v = 0; v < count; v++) {
+      offset = body.writeFloatLE(positions[v * 3], offset);
+      offset = body.writeFloatLE(positions[v * 3 + 1], offset);
+      offset = body.writeFloatLE(positions[v * 3 + 2], offset);
+      if (hasNormals) {
+        offset = body.writeFloatLE(normals ? normals[v * 3] : 0, offset);
+        offset = body.writeFloatLE(normals ? normals[v * 3 + 1] : 0, offset);
+        offset = body.writeFloatLE(normals ? normals[v * 3 + 2] : 0, offset);
+      }
+      if (hasUVs) {
+        // PLY texture coordinates have their origin at the bottom left
+        offset = body.writeFloatLE(uvs ? uvs[v * 2] : 0, offset);
+        offset = body.writeFloatLE(uvs ? 1 - uvs[v * 2 + 1] : 0, offset);
+      }
+    }
+  });
+
+  let vertexOffset = 0;
+  primitives.forEach(({ positions, indices }) => {
+    for (let t = 0; t < indices.length; t += 3) {
+      offset = body.writeUInt8(3, offset);
+      offset = body.writeUInt32LE(indices[t] + vertexOffset, offset);
+      offset = body.writeUInt32LE(indices[t + 1] + vertexOffset, offset);
+      offset = body.writeUInt32LE(indices[t + 2] + vertexOffset, offset);
+    }
+    vertexOffset += positions.length / 3;
+  });
+
+  onProgress?.('PLY export complete', 90);
+
+  const files: ExportedFile[] = [{ name: `${baseName}.ply`, data: Buffer.concat([headerBytes, body]) }];
+  if (texture) {
+    files.push({ name: texture.name, data: texture.data });
+  }
+  return { files };
+}
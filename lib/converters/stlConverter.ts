@@ -0,0 +1,60 @@
+import { Document } from '@gltf-transform/core';
+import { collectWorldPrimitives } from '@/lib/utils/geometryUtils';
+import { ExportResult, ExportProgress } from './exportUtils';
+
+const HEADER_BYTES = 80;
+const TRIANGLE_BYTES = 50;
+
+/**
+ * Export every triangle in world space as binary STL. STL has no materials
+ * or texture coordinates, so only geometry is written.
+ */
+export function exportToSTL(
+  document: Document,
+  baseName: string,
+  onProgress?: ExportProgress
+): ExportResult {
+  onProgress?.('Writing STL geometry', 60);
+
+  const primitives = collectWorldPrimitives(document);
+  const triangleCount = primitives.reduce((sum, primitive) => sum + primitive.indices.length / 3, 0);
+
+  const buffer = Buffer.alloc(HEADER_BYTES + 4 + triangleCount * TRIANGLE_BYTES);
+  buffer.write('Binary STL exported by image2asset', 0, 'ascii');
+  buffer.writeUInt32LE(triangleCount, HEADER_BYTES);
+
+  let offset = HEADER_BYTES + 4;
+  primitives.forEach(({ positions, indices }) => {
+    for (let t = 0; t < indices.length; t += 3) {
+      const a = indices[t] * 3;
+      const b = indices[t + 1] * 3;
+      const c = indices[t + 2] * 3;
+
+      // Facet normal from the winding; readers recompute it when it is zero
+      const ux = positions[b] - positions[a];
+      const uy = positions[b + 1] - positions[a + 1];
+      const uz = positions[b + 2] - positions[a + 2];
+      const vx = positions[c] - positions[a];
+      const vy = positions[c + 1] - positions[a + 1];
+      const vz = positions[c + 2] - positions[a + 2];
+      const nx = uy * vz - uz * vy;
+      const ny = uz * vx - ux * vz;
+      const nz = ux * vy - uy * vx;
+      const length = Math.hypot(nx, ny, nz) || 1;
+
+      offset = buffer.writeFloatLE(nx / length, offset);
+      offset = buffer.writeFloatLE(ny / length, offset);
+      offset = buffer.writeFloatLE(nz / length, offset);
+      [a, b, c].forEach((vertex) => {
+        offset = buffer.writeFloatLE(positions[vertex], offset);
+        offset = buffer.writeFloatLE(positions[vertex + 1], offset);
+        offset = buffer.writeFloatLE(positions[vertex + 2], offset);
+      });
+      offset = buffer.writeUInt16LE(0, offset);
+    }
+  });
+
+  onProgress?.('STL export complete', 90);
+
+  return { files: [{ name: `${baseName}.stl`, data: buffer }] };
+}
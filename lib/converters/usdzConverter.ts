@@ -0,0 +1,305 @@
+import { Document, Material, Texture } from '@gltf-transform/core';
+import { collectWorldPrimitives, WorldPrimitive } from '@/lib/utils/geometryUtils';
+import { crc32 } from '@/lib/utils/pngUtils';
+import { ExportResult, ExportProgress, ExportedTexture, extractTextures, materialName } from './exportUtils';
+
+/**
+ * USDZ export for AR Quick Look. The scene is written as a USDA root layer
+ * with UsdPreviewSurface materials and packaged with its textures in an
+ * uncompressed ZIP whose file data is 64-byte aligned, as the format
+ * requires. USDZ only allows PNG and JPEG images, so other textures are
+ * dropped and their materials fall back to factors.
+ */
+
+const ROOT_LAYER = 'model.usda';
+const USDZ_ALIGNMENT = 64;
+const USDZ_TEXTURE_TYPES = ['image/png', 'image/jpeg'];
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
+
+function tuples(values: ArrayLike<number>, size: number): string {
+  const items: string[] = [];
+  for (let i = 0; i < values.length; i += size) {
+    const tuple: string[] = [];
+    for (let j = 0; j < size; j++) {
+      tuple.push(formatNumber(values[i + j]));
+    }
+    items.push(`(${tuple.join(', ')})`);
+  }
+  return `[${items.join(', ')}]`;
+}
+
+// Prim names must be identifiers, and unique among their siblings
+function primName(name: string, used: Set<string>): string {
+  let base = name.replace(/[^A-Za-z0-9_]/g, '_') || 'mesh';
+  if (/^[0-9]/.test(base)) base = `_${base}`;
+
+  let unique = base;
+  for (let i = 1; used.has(unique); i++) {
+    unique = `${base}_${i}`;
+  }
+  used.add(unique);
+  return unique;
+}
+
+function materialPrim(
+  path: string,
+  name: string,
+  material: Material | null,
+  textureFile: (texture: Texture | null) => string | null
+): string {
+  const [r, g, b, a] = material?.getBaseColorFactor() ?? [0.8, 0.8, 0.8, 1];
+  const [er, eg, eb] = material?.getEmissiveFactor() ?? [0, 0, 0];
+  const transparent = material ? material.getAlphaMode() !== 'OPAQUE' : false;
+
+  const baseColorFile = textureFile(material?.getBaseColorTexture() ?? null);
+  const normalFile = textureFile(material?.getNormalTexture() ?? null);
+  const metallicRoughnessFile = textureFile(material?.getMetallicRoughnessTexture() ?? null);
+  const emissiveFile = textureFile(material?.getEmissiveTexture() ?? null);
+
+  const inputs: string[] = [];
+  const shaders: string[] = [];
+
+  const textureShader = (shaderName: string, file: string, colorSpace: 'sRGB' | 'raw', extra: string[], outputs: string[]) => {
+    shaders.push(`
+            def Shader "${shaderName}"
+            {
+                uniform token info:id = "UsdUVTexture"
+                asset inputs:file = @${file}@
+                float2 inputs:st.connect = <${path}/PrimvarReader.outputs:result>
+                token inputs:sourceColorSpace = "${colorSpace}"
+                token inputs:wrapS = "repeat"
+                token inputs:wrapT = "repeat"
+${extra.map((line) => `                ${line}\n`).join('')}${outputs.map((line) => `                ${line}\n`).join('')}            }`);
+  };
+
+  if (baseColorFile) {
+    inputs.push(`color3f inputs:diffuseColor.connect = <${path}/BaseColorTexture.outputs:rgb>`);
+    textureShader('BaseColorTexture', baseColorFile, 'sRGB', [`float4 inputs:scale = (${[r, g, b, a].map(formatNumber).join(', ')})`], ['float3 outputs:rgb', 'float outputs:a']);
+  } else {
+    inputs.push(`color3f inputs:diffuseColor = (${[r, g, b].map(formatNumber).join(', ')})`);
+  }
+
+  if (transparent && baseColorFile) {
+    inputs.push(`float inputs:opacity.connect = <${path}/BaseColorTexture.outputs:a>`);
+  } else {
+    inputs.push(`float inputs:opacity = ${formatNumber(transparent ? a : 1)}`);
+  }
+  if (material?.getAlphaMode() === 'MASK') {
+    inputs.push(`float inputs:opacityThreshold = ${formatNumber(material.getAlphaCutoff())}`);
+  }
+
+  // glTF packs roughness in green and metalness in blue
+  if (metallicRoughnessFile) {
+    inputs.push(`float inputs:metallic.connect = <${path}/MetallicRoughnessTexture.outputs:b>`);
+    inputs.push(`float inputs:roughness.connect = <${path}/MetallicRoughnessTexture.outputs:g>`);
+    const metallic = material?.getMetallicFactor() ?? 1;
+    const roughness = material?.getRoughnessFactor() ?? 1;
+    textureShader('MetallicRoughnessTexture', metallicRoughnessFile, 'raw', [`float4 inputs:scale = (1, ${formatNumber(roughness)}, ${formatNumber(metallic)}, 1)`], ['float outputs:g', 'float outputs:b']);
+  } else {
+    inputs.push(`float inputs:metallic = ${formatNumber(material?.getMetallicFactor() ?? 0)}`);
+    inputs.push(`float inputs:roughness = ${formatNumber(material?.getRoughnessFactor() ?? 1)}`);
+  }
+
+  // Normal maps are stored in [0, 1] and remapped to [-1, 1]
+  if (normalFile) {
+    inputs.push(`normal3f inputs:normal.connect = <${path}/NormalTexture.outputs:rgb>`);
+    textureShader('NormalTexture', normalFile, 'raw', ['float4 inputs:scale = (2, 2, 2, 1)', 'float4 inputs:bias = (-1, -1, -1, 0)'], ['float3 outputs:rgb']);
+  }
+
+  if (emissiveFile) {
+    inputs.push(`color3f inputs:emissiveColor.connect = <${path}/EmissiveTexture.outputs:rgb>`);
+    textureShader('EmissiveTexture', emissiveFile, 'sRGB', [`float4 inputs:scale = (${[er, eg, eb].map(formatNumber).join(', ')}, 1)`], ['float3 outputs:rgb']);
+  } else {
+    inputs.push(`color3f inputs:emissiveColor = (${[er, eg, eb].map(formatNumber).join(', ')})`);
+  }
+
+  const primvarReader = shaders.length > 0
+    ? `
+            def Shader "PrimvarReader"
+            {
+                uniform token info:id = "UsdPrimvarReader_float2"
+                token inputs:varname = "st"
+                float2 outputs:result
+            }`
+    : '';
+
+  return `
+        def Material "${name}"
+        {
+            token outputs:surface.connect = <${path}/PreviewSurface.outputs:surface>
+
+            def Shader "PreviewSurface"
+            {
+                uniform token info:id = "UsdPreviewSurface"
+${inputs.map((line) => `                ${line}\n`).join('')}                token outputs:surface
+            }${primvarReader}${shaders.join('')}
+        }`;
+}
+
+function meshPrim(name: string, primitive: WorldPrimitive, materialPath: string): string {
+  const { positions, normals, uvs, indices } = primitive;
+  const lines = [
+    `int[] faceVertexCounts = [${new Array(indices.length / 3).fill(3).join(', ')}]`,
+    `int[] faceVertexIndices = [${Array.from(indices).join(', ')}]`,
+    `point3f[] points = ${tuples(positions, 3)}`,
+  ];
+
+  if (normals) {
+    lines.push(`normal3f[] normals = ${tuples(normals, 3)} (\n            interpolation = "vertex"\n        )`);
+  }
+  if (uvs) {
+    // USD texture coordinates have their origin at the bottom left
+    const st = new Float32Array(uvs.length);
+    for (let i = 0; i < uvs.length; i += 2) {
+      st[i] = uvs[i];
+      st[i + 1] = 1 - uvs[i + 1];
+    }
+    lines.push(`texCoord2f[] primvars:st = ${tuples(st, 2)} (\n            interpolation = "vertex"\n        )`);
+  }
+  lines.push('uniform token subdivisionScheme = "none"');
+  lines.push(`rel material:binding = <${materialPath}>`);
+
+  return `
+    def Mesh "${name}" (
+        prepend apiSchemas = ["MaterialBindingAPI"]
+    )
+    {
+${lines.map((line) => `        ${line}\n`).join('')}    }`;
+}
+
+/**
+ * Write files into a stored (uncompressed) ZIP, padding each local header
+ * with an extra field so file data starts on a 64-byte boundary
+ */
+function packageUsdz(files: { name: string; data: Buffer }[]): Buffer {
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  files.forEach(({ name, data }) => {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const crc = crc32(data);
+
+    // An extra field needs at least its 4-byte header
+    let padding = (USDZ_ALIGNMENT - ((offset + 30 + nameBytes.length) % USDZ_ALIGNMENT)) % USDZ_ALIGNMENT;
+    if (padding > 0 && padding < 4) padding += USDZ_ALIGNMENT;
+
+    const extra = Buffer.alloc(padding);
+    if (padding > 0) {
+      extra.writeUInt16LE(0x1986, 0);
+      extra.writeUInt16LE(padding - 4, 2);
+    }
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0, 6);
+    local.writeUInt16LE(0, 8);
+    local.writeUInt16LE(0, 10);
+    local.writeUInt16LE(0x21, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    local.writeUInt16LE(extra.length, 28);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(0, 8);
+    header.writeUInt16LE(0, 10);
+    header.writeUInt16LE(0, 12);
+    header.writeUInt16LE(0x21, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(data.length, 20);
+    header.writeUInt32LE(data.length, 24);
+    header.writeUInt16LE(nameBytes.length, 28);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, nameBytes);
+
+    parts.push(local, nameBytes, extra, data);
+    offset += local.length + nameBytes.length + extra.length + data.length;
+  });
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, directory, end]);
+}
+
+export function exportToUSDZ(
+  document: Document,
+  baseName: string,
+  onProgress?: ExportProgress
+): ExportResult {
+  onProgress?.('Writing USD stage', 60);
+
+  const primitives = collectWorldPrimitives(document);
+  const textures = extractTextures(document);
+
+  const usedTextures = new Map<string, ExportedTexture>();
+  const textureFile = (texture: Texture | null): string | null => {
+    const exported = texture ? textures.get(texture) : undefined;
+    if (!exported || !USDZ_TEXTURE_TYPES.includes(exported.mimeType)) {
+      return null;
+    }
+    usedTextures.set(exported.name, exported);
+    return exported.name;
+  };
+
+  const materialNames = new Set<string>();
+  const materialPaths = new Map<Material | null, string>();
+  const materials: string[] = [];
+  const meshNames = new Set<string>(['Materials']);
+  const meshes: string[] = [];
+
+  primitives.forEach((primitive) => {
+    let materialPath = materialPaths.get(primitive.material);
+    if (!materialPath) {
+      const name = primName(materialName(document, primitive.material), materialNames);
+      materialPath = `/Root/Materials/${name}`;
+      materialPaths.set(primitive.material, materialPath);
+      materials.push(materialPrim(materialPath, name, primitive.material, textureFile));
+    }
+    meshes.push(meshPrim(primName(primitive.name, meshNames), primitive, materialPath));
+  });
+
+  const stage = `#usda 1.0
+(
+    defaultPrim = "Root"
+    metersPerUnit = 1
+    upAxis = "Y"
+)
+
+def Xform "Root" (
+    kind = "component"
+)
+{
+    def Scope "Materials"
+    {${materials.join('\n')}
+    }
+${meshes.join('\n')}
+}
+`;
+
+  onProgress?.('Packaging USDZ', 80);
+
+  // The root layer must be the first file in the package
+  const usdz = packageUsdz([
+    { name: ROOT_LAYER, data: Buffer.from(stage, 'utf8') },
+    ...Array.from(usedTextures.values()).map(({ name, data }) => ({ name, data })),
+  ]);
+
+  onProgress?.('USDZ export complete', 90);
+
+  return { files: [{ name: `${baseName}.usdz`, data: usdz }] };
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { Job } from '@/lib/storage/jobs';
+
+interface JobEventHandlers {
+  onComplete?: (job: Job) => void;
+  onError?: (job: Job) => void;
+  /** The job could not be found or its progress stream kept dropping */
+  onConnectionError?: (message: string) => void;
+}
+
+export interface JobEventsState {
+  job: Job | null;
+  progress: number;
+  message: string;
+}
+
+/**
+ * Subscribe to server-sent progress events for a job. Pass null to stay idle.
+ * The stream closes itself once the job completes, fails or is cancelled.
+ * When the stream errors the job is fetched once: a finished job is handled
+ * as usual, a running one gets a single reconnect, anything else is reported.
+ */
+export function useJobEvents(
+  jobId: string | null,
+  handlers: JobEventHandlers = {}
+): JobEventsState {
+  const [job, setJob] = useState<Job | null>(null);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    setJob(null);
+    if (!jobId) return;
+
+    let source: EventSource | null = null;
+    let reconnected = false;
+    let cancelled = false;
+
+    // Returns whether the job has finished
+    const handle = (current: Job): boolean => {
+      setJob(current);
+
+      if (current.status === 'completed') {
+        handlersRef.current.onComplete?.(current);
+        return true;
+      }
+      if (current.status === 'failed' || current.status === 'cancelled') {
+        handlersRef.current.onError?.(current);
+        return true;
+      }
+      return false;
+    };
+
+    const recover = async () => {
+      try {
+        const response = await fetch(`/api/jobs?id=${encodeURIComponent(jobId)}`);
+        const data = await response.json();
+        if (cancelled) return;
+
+        if (!response.ok) {
+          handlersRef.current.onConnectionError?.(data.error || 'Failed to fetch job status');
+          return;
+        }
+        if (handle(data.job)) return;
+
+        if (!reconnected) {
+          reconnected = true;
+          connect();
+        } else {
+          handlersRef.current.onConnectionError?.('Lost connection to the job progress stream');
+        }
+      } catch {
+        if (!cancelled) {
+          handlersRef.current.onConnectionError?.('Lost connection to the job progress stream');
+        }
+      }
+    };
+
+    const connect = () => {
+      const current = new EventSource(`/api/jobs/${encodeURIComponent(jobId)}/events`);
+      source = current;
+
+      current.onmessage = (event) => {
+        if (handle(JSON.parse(event.data))) {
+          current.close();
+        }
+      };
+
+      // EventSource would otherwise retry forever, including on a 404
+      current.onerror = () => {
+        current.close();
+        recover();
+      };
+    };
+
+    connect();
+
+    return () => {
+      cancelled = true;
+      source?.close();
+    };
+  }, [jobId]);
+
+  return {
+    job,
+    progress: job?.progress ?? 0,
+    message: job?.message ?? '',
+  };
+}
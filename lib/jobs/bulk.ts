@@ -0,0 +1,262 @@
+import {
+  imageGenerationProviders,
+  backgroundRemovalProviders,
+  imageTo3DProviders,
+  removeBackgroundWithFallback,
+  ServiceError,
+  ProgressCallback,
+} from '../services';
+import {
+  Asset,
+  saveAsset,
+  saveAssetFromUrl,
+  saveModel,
+  getAsset,
+  createProvenance,
+} from '../storage/assets';
+import { Job, JobInput, getJob, updateJob } from '../storage/jobs';
+import { computeCacheKey, getCachedResult, cacheResult } from '../storage/cache';
+import { getBaseUrl } from '../utils';
+import { JobContext, JobResult } from './runner';
+
+export type BulkStep = 'generate' | 'remove-bg' | 'convert-3d';
+
+export const BULK_STEPS: BulkStep[] = ['generate', 'remove-bg', 'convert-3d'];
+
+export interface BulkItem {
+  prompt?: string;
+  imageUrl?: string;
+  assetId?: string;
+}
+
+/**
+ * Input stored on each child job so a worker can run it after a restart
+ */
+export function bulkItemInput(
+  item: BulkItem,
+  steps: BulkStep[],
+  index: number,
+  provider?: string,
+  force?: boolean
+): JobInput {
+  return {
+    prompt: item.prompt,
+    imageUrl: item.imageUrl,
+    assetId: item.assetId,
+    provider,
+    force,
+    options: { steps, index },
+  };
+}
+
+/**
+ * Run the configured pipeline steps for one bulk item
+ */
+export async function processBulkItem(
+  job: Job,
+  { signal, onProgress }: JobContext
+): Promise<JobResult> {
+  const steps = (job.input.options?.steps as BulkStep[] | undefined) ?? [];
+  let currentAssetId: string | undefined;
+  let currentImageUrl: string | undefined;
+  let prompt = job.input.prompt;
+  const checkpoints: Record<string, string> = { ...job.output?.steps };
+  const force = job.input.force === true;
+
+  const recordCheckpoint = (step: BulkStep, assetId: string) => {
+    checkpoints[step] = assetId;
+    updateJob(job.id, { output: { ...getJob(job.id)?.output, steps: { ...checkpoints } } });
+  };
+
+  if (job.input.assetId) {
+    const asset = getAsset(job.input.assetId);
+    if (!asset) {
+      throw new Error('Asset not found');
+    }
+    currentAssetId = asset.id;
+    currentImageUrl = `${getBaseUrl()}${asset.path}`;
+    prompt = asset.prompt || prompt;
+  } else if (job.input.imageUrl) {
+    currentImageUrl = job.input.imageUrl;
+  }
+
+  for (let stepIndex = 0; stepIndex < steps.length; stepIndex++) {
+    const step = steps[stepIndex];
+    // Scale each step's progress into its share of the item
+    const stepProgress: ProgressCallback = (progress, message, details) => {
+      onProgress(
+        Math.round(((stepIndex + progress / 100) / steps.length) * 100),
+        message,
+        details?.retry ? { retry: { ...details.retry, step } } : details
+      );
+    };
+
+    // Resume from the last successful step of a previous attempt
+    const checkpoint = checkpoints[step] ? getAsset(checkpoints[step]) : null;
+    if (checkpoint && step !== 'convert-3d') {
+      currentAssetId = checkpoint.id;
+      currentImageUrl = `${getBaseUrl()}${checkpoint.path}`;
+      prompt = checkpoint.prompt || prompt;
+      stepProgress(100, `Reusing previous ${step} result`);
+      continue;
+    }
+
+    const startedAt = new Date();
+    // Each step can be reproduced on its own through the matching route
+    const sourceInput = currentAssetId ? { assetId: currentAssetId } : { imageUrl: currentImageUrl };
+
+    if (step === 'generate' && prompt) {
+      const imageProvider = imageGenerationProviders.get(job.input.provider);
+      const cacheKey = await computeCacheKey(
+        { operation: 'generate', provider: imageProvider.name, prompt, random: true },
+        signal
+      );
+      const cached = force ? null : getCachedResult(cacheKey);
+
+      let asset: Asset;
+      if (cached) {
+        asset = cached.asset;
+        stepProgress(100, 'Reused cached image');
+      } else {
+        const result = await imageProvider.generateImage({ prompt }, stepProgress, signal);
+        if (!result.success || !result.data) {
+          throw ServiceError.fromResult(result, 'Failed to generate image');
+        }
+
+        asset = await saveAsset('generated', result.data.imageData, {
+          prompt,
+          sourceAssetId: currentAssetId,
+          provenance: createProvenance(startedAt, {
+            jobId: job.id,
+            provider: imageProvider.name,
+            model: imageProvider.model,
+            request: { endpoint: '/api/generate', body: { prompt, provider: imageProvider.name } },
+          }),
+        });
+        cacheResult(cacheKey, {
+          operation: 'generate',
+          provider: imageProvider.name,
+          assetId: asset.id,
+          jobId: job.id,
+        });
+      }
+
+      recordCheckpoint(step, asset.id);
+      currentAssetId = asset.id;
+      currentImageUrl = `${getBaseUrl()}${asset.path}`;
+    } else if (step === 'remove-bg' && currentImageUrl) {
+      const removalProvider = backgroundRemovalProviders.get();
+      const cacheKey = await computeCacheKey(
+        { operation: 'remove-bg', provider: removalProvider.name, imageUrls: [currentImageUrl] },
+        signal
+      );
+      const cached = force ? null : getCachedResult(cacheKey);
+
+      let asset: Asset;
+      if (cached) {
+        asset = cached.asset;
+        stepProgress(100, 'Reused cached background removal result');
+      } else {
+        const result = await removeBackgroundWithFallback(
+          { imageUrl: currentImageUrl },
+          removalProvider.name,
+          stepProgress,
+          signal
+        );
+        if (!result.success || !result.data) {
+          throw ServiceError.fromResult(result, 'Failed to remove background');
+        }
+
+        asset = await saveAssetFromUrl('no-bg', result.data.imageUrl, {
+          prompt,
+          sourceAssetId: currentAssetId,
+          metadata: { backgroundRemoval: result.data.removal },
+          provenance: createProvenance(startedAt, {
+            jobId: job.id,
+            provider: result.data.removal.method,
+            model: backgroundRemovalProviders.get(result.data.removal.method).model,
+            request: {
+              endpoint: '/api/remove-bg',
+              body: { ...sourceInput, provider: removalProvider.name },
+            },
+          }),
+        });
+        if (!result.data.removal.fallback) {
+          cacheResult(cacheKey, {
+            operation: 'remove-bg',
+            provider: removalProvider.name,
+            assetId: asset.id,
+            jobId: job.id,
+          });
+        }
+      }
+
+      recordCheckpoint(step, asset.id);
+      currentAssetId = asset.id;
+      currentImageUrl = `${getBaseUrl()}${asset.path}`;
+    } else if (step === 'convert-3d' && currentImageUrl) {
+      const modelProvider = imageTo3DProviders.get();
+      const cacheKey = await computeCacheKey(
+        {
+          operation: 'convert-3d',
+          provider: modelProvider.name,
+          imageUrls: [currentImageUrl],
+          random: modelProvider.capabilities.seed,
+        },
+        signal
+      );
+      const cached = force ? null : getCachedResult(cacheKey);
+      if (cached) {
+        return {
+          message: 'Item processed with cached 3D model',
+          output: {
+            assetId: cached.asset.id,
+            modelPath: cached.asset.path,
+            cacheHit: true,
+            cachedFromJobId: cached.jobId,
+            seed: cached.asset.provenance?.seed,
+          },
+        };
+      }
+
+      const result = await modelProvider.convertTo3D(
+        { imageUrl: currentImageUrl },
+        stepProgress,
+        signal
+      );
+      if (!result.success || !result.data) {
+        throw ServiceError.fromResult(result, 'Failed to convert to 3D');
+      }
+
+      const modelAsset = await saveModel(result.data.modelUrl, {
+        sourceAssetId: currentAssetId,
+        provenance: createProvenance(startedAt, {
+          jobId: job.id,
+          provider: modelProvider.name,
+          model: modelProvider.model,
+          seed: result.data.seed,
+          request: {
+            endpoint: '/api/convert-3d',
+            body: { ...sourceInput, provider: modelProvider.name },
+          },
+        }),
+      });
+      cacheResult(cacheKey, {
+        operation: 'convert-3d',
+        provider: modelProvider.name,
+        assetId: modelAsset.id,
+        jobId: job.id,
+      });
+
+      return {
+        message: 'Item processed successfully',
+        output: { assetId: modelAsset.id, modelPath: modelAsset.path, seed: result.data.seed },
+      };
+    }
+  }
+
+  return {
+    message: 'Item processed successfully',
+    output: { assetId: currentAssetId },
+  };
+}
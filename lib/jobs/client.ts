@@ -0,0 +1,140 @@
+import type { Job } from '../storage/jobs';
+import type { AssetProvenance } from '../storage/assets';
+import { SERVICE_ERROR_MESSAGES, ServiceErrorCode } from '../services/errors';
+
+export interface WaitForJobOptions {
+  onProgress?: (progress: number, message?: string) => void;
+  onStart?: (job: Job) => void;
+  interval?: number;
+}
+
+/**
+ * User-facing message for a failed request, preferring the wording for its
+ * error class over the raw provider message
+ */
+export function describeError(
+  code: ServiceErrorCode | undefined,
+  message: string | undefined,
+  fallback: string
+): string {
+  return (code && SERVICE_ERROR_MESSAGES[code]) || message || fallback;
+}
+
+/**
+ * User-facing message for a failed or cancelled job
+ */
+export function getJobErrorMessage(job: Job, fallback: string): string {
+  if (job.status === 'cancelled') {
+    return describeError('cancelled', job.message, fallback);
+  }
+  return describeError(job.output?.errorCode, job.output?.error || job.message, fallback);
+}
+
+/**
+ * Submit a request to a job-backed API route and return the queued job
+ */
+export async function startJob(url: string, body: unknown): Promise<Job> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(describeError(data.code, data.error, 'Request failed'));
+  }
+
+  return data.job;
+}
+
+/**
+ * Poll a job until it finishes. Resolves with the completed job and rejects
+ * with the job message when it fails or is cancelled.
+ */
+export async function waitForJob(
+  jobId: string,
+  options: WaitForJobOptions = {}
+): Promise<Job> {
+  const { onProgress, interval = 1500 } = options;
+
+  while (true) {
+    const response = await fetch(`/api/jobs?id=${encodeURIComponent(jobId)}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to fetch job status');
+    }
+
+    const job: Job = data.job;
+    onProgress?.(job.progress, job.message);
+
+    if (job.status === 'completed') {
+      return job;
+    }
+
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      throw new Error(getJobErrorMessage(job, `Job ${job.status}`));
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+}
+
+/**
+ * Start a job and wait for it to complete
+ */
+export async function runJob(
+  url: string,
+  body: unknown,
+  options: WaitForJobOptions = {}
+): Promise<Job> {
+  const job = await startJob(url, body);
+  options.onStart?.(job);
+  return waitForJob(job.id, options);
+}
+
+/**
+ * Submit the request that produced an asset again, pinned to the seed it
+ * used and bypassing the result cache
+ */
+export async function reproduceAsset(
+  provenance: AssetProvenance,
+  options: WaitForJobOptions = {}
+): Promise<Job> {
+  if (!provenance.request) {
+    throw new Error('This asset was not produced by a request that can be repeated');
+  }
+
+  const { endpoint, body } = provenance.request;
+  const settings =
+    provenance.seed !== undefined
+      ? { ...(body.settings as Record<string, unknown> | undefined), seed: provenance.seed }
+      : body.settings;
+
+  return runJob(endpoint, { ...body, settings, force: true }, options);
+}
+
+/**
+ * Reference to the asset produced by a completed job
+ */
+export function getJobAsset(job: Job, type: string): { id: string; path: string; type: string } {
+  const id = job.output?.assetId;
+  const path = job.output?.assetPath || job.output?.modelPath;
+  if (!id || !path) {
+    throw new Error('Job did not produce an asset');
+  }
+  return { id, path, type };
+}
+
+export async function requestJobCancel(jobId: string): Promise<void> {
+  const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}/cancel`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || 'Failed to cancel job');
+  }
+}
@@ -0,0 +1,178 @@
+import { getConfig } from '../config';
+import {
+  Job,
+  BulkItemResult,
+  claimNextJob,
+  getJob,
+  listJobs,
+  updateJob,
+  requeueJob,
+  isTerminalStatus,
+} from '../storage/jobs';
+import { executeJob, isJobRunning } from './runner';
+import { processBulkItem } from './bulk';
+
+interface QueueState {
+  started: boolean;
+  active: number;
+}
+
+// One queue per process, shared by every route bundle
+const globalForQueue = globalThis as unknown as { bulkQueue?: QueueState };
+
+const state =
+  globalForQueue.bulkQueue ?? (globalForQueue.bulkQueue = { started: false, active: 0 });
+
+function toItemResult(job: Job): BulkItemResult {
+  return {
+    index: (job.input.options?.index as number | undefined) ?? 0,
+    jobId: job.id,
+    success: job.status === 'completed',
+    assetId: job.output?.assetId,
+    modelPath: job.output?.modelPath,
+    error: job.status === 'completed' ? undefined : job.output?.error || job.message,
+    errorCode: job.status === 'completed' ? undefined : job.output?.errorCode,
+    variant: job.input.options?.variant as Record<string, number> | undefined,
+    warnings: job.output?.warnings,
+  };
+}
+
+/**
+ * Recompute the progress of a parent job, such as a bulk run or a set of 3D
+ * variants, from its child jobs, finishing it once every child has
+ * completed, failed or been cancelled.
+ */
+export function updateParentProgress(parentJobId: string): void {
+  const parent = getJob(parentJobId);
+  if (!parent || isTerminalStatus(parent.status)) {
+    return;
+  }
+
+  const children = listJobs({ parentJobId });
+  const total = children.length;
+  const finished = children.filter((c) => isTerminalStatus(c.status)).length;
+
+  if (finished < total) {
+    updateJob(parentJobId, {
+      progress: Math.round((finished / total) * 100),
+      message: `Processed ${finished}/${total} items`,
+    });
+    return;
+  }
+
+  const results = children.map(toItemResult).sort((a, b) => a.index - b.index);
+  const successful = results.filter((r) => r.success).length;
+  const failed = total - successful;
+
+  updateJob(parentJobId, {
+    status: failed === total ? 'failed' : 'completed',
+    progress: 100,
+    message: `Completed: ${successful} successful, ${failed} failed`,
+    output: { results },
+  });
+}
+
+async function runItem(job: Job): Promise<void> {
+  await executeJob(job.id, (context) => processBulkItem(job, context));
+
+  if (job.parentJobId) {
+    updateParentProgress(job.parentJobId);
+  }
+}
+
+/**
+ * Put jobs left in 'processing' by a previous server process back in the
+ * queue, or fail them once they have used up their attempts. Jobs that are
+ * not queue items cannot be resumed and are marked failed.
+ */
+export function recoverStaleJobs(): void {
+  const maxAttempts = getConfig().bulk.retryAttempts + 1;
+
+  const processing = listJobs({ status: 'processing' });
+
+  // Parents finish with their children, below
+  for (const job of processing) {
+    if (job.childJobIds || isJobRunning(job.id)) continue;
+
+    if (job.type === 'pipeline' && (job.attempts ?? 0) < maxAttempts) {
+      updateJob(job.id, {
+        status: 'pending',
+        progress: 0,
+        message: 'Re-queued after server restart',
+      });
+    } else {
+      const message = 'Interrupted by server restart';
+      updateJob(job.id, {
+        status: 'failed',
+        progress: 100,
+        message,
+        output: { error: message, errorCode: 'unknown' },
+      });
+    }
+  }
+
+  for (const parent of processing.filter((job) => job.childJobIds)) {
+    updateParentProgress(parent.id);
+  }
+}
+
+/**
+ * Re-queue the failed items of a finished bulk run. Items keep their step
+ * checkpoints so workers resume after the last step that succeeded.
+ * Returns the number of items queued.
+ */
+export function retryFailedItems(parentJobId: string): number {
+  const failed = listJobs({ parentJobId, status: 'failed' });
+  if (failed.length === 0) {
+    return 0;
+  }
+
+  for (const item of failed) {
+    requeueJob(item.id, 'Queued for retry', { steps: item.output?.steps });
+  }
+
+  updateJob(parentJobId, {
+    status: 'processing',
+    message: `Retrying ${failed.length} failed items...`,
+  });
+  updateParentProgress(parentJobId);
+  drainQueue();
+
+  return failed.length;
+}
+
+/**
+ * Fill free worker slots with pending bulk items, up to bulk.concurrency
+ */
+export function drainQueue(): void {
+  if (!state.started) {
+    startQueue();
+    return;
+  }
+
+  const { concurrency } = getConfig().bulk;
+
+  while (state.active < concurrency) {
+    const job = claimNextJob('pipeline');
+    if (!job) break;
+
+    state.active++;
+    runItem(job)
+      .catch((error) => console.error(`Bulk item ${job.id} crashed:`, error))
+      .finally(() => {
+        state.active--;
+        drainQueue();
+      });
+  }
+}
+
+/**
+ * Recover stale jobs and start the workers. Safe to call more than once.
+ */
+export function startQueue(): void {
+  if (state.started) return;
+  state.started = true;
+
+  recoverStaleJobs();
+  drainQueue();
+}
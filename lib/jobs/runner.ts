@@ -0,0 +1,129 @@
+import { ProgressCallback } from '../services/base';
+import { classifyError } from '../services/errors';
+import { Job, JobOutput, getJob, updateJob, isTerminalStatus } from '../storage/jobs';
+
+export interface JobContext {
+  signal: AbortSignal;
+  onProgress: ProgressCallback;
+}
+
+export interface JobResult {
+  output: JobOutput;
+  message?: string;
+}
+
+export type JobHandler = (context: JobContext) => Promise<JobResult>;
+
+// Next.js bundles each route separately, so in-flight controllers are kept on
+// globalThis to let the cancel endpoint reach jobs started by other routes.
+const globalForJobs = globalThis as unknown as {
+  jobControllers?: Map<string, AbortController>;
+};
+
+const controllers =
+  globalForJobs.jobControllers ?? (globalForJobs.jobControllers = new Map());
+
+/**
+ * Run the handler for a job that is already marked as processing and record
+ * its outcome. Resolves once the job has finished.
+ */
+export async function executeJob(jobId: string, handler: JobHandler): Promise<void> {
+  const controller = new AbortController();
+  controllers.set(jobId, controller);
+  const { signal } = controller;
+
+  const onProgress: ProgressCallback = (progress, message, details) => {
+    if (signal.aborted) return;
+
+    if (details?.retry) {
+      const output = getJob(jobId)?.output;
+      updateJob(jobId, {
+        progress,
+        message,
+        output: { ...output, retries: [...(output?.retries ?? []), details.retry] },
+      });
+    } else {
+      updateJob(jobId, { progress, message });
+    }
+  };
+
+  try {
+    const result = await handler({ signal, onProgress });
+    if (signal.aborted) return;
+
+    // Keep the retry history alongside the handler's output
+    const retries = getJob(jobId)?.output?.retries;
+    updateJob(jobId, {
+      status: 'completed',
+      progress: 100,
+      message: result.message,
+      output: retries ? { ...result.output, retries } : result.output,
+    });
+  } catch (error) {
+    // A cancelled job keeps its 'cancelled' status
+    if (signal.aborted) return;
+
+    const { message, code } = classifyError(error);
+    console.error(`Job ${jobId} failed (${code}):`, message);
+    // Keep any checkpoints the handler recorded before failing
+    updateJob(jobId, {
+      status: 'failed',
+      progress: 100,
+      message,
+      output: { ...getJob(jobId)?.output, error: message, errorCode: code },
+    });
+  } finally {
+    controllers.delete(jobId);
+  }
+}
+
+/**
+ * Mark a job as processing and run its handler without blocking the caller.
+ * Progress, completion and failure are written to the job registry.
+ */
+export function runJobInBackground(
+  jobId: string,
+  handler: JobHandler,
+  startMessage: string = 'Starting...'
+): Job | null {
+  const job = updateJob(jobId, {
+    status: 'processing',
+    progress: 10,
+    message: startMessage,
+  });
+
+  if (!job) {
+    return null;
+  }
+
+  void executeJob(jobId, handler);
+
+  return job;
+}
+
+export function isJobRunning(id: string): boolean {
+  return controllers.has(id);
+}
+
+/**
+ * Cancel a pending or processing job, aborting its in-flight request if it
+ * is running in this process. Unfinished child jobs are cancelled with it.
+ * Finished jobs are returned unchanged.
+ */
+export function cancelJob(id: string): Job | null {
+  const job = getJob(id);
+  if (!job) {
+    return null;
+  }
+
+  if (isTerminalStatus(job.status)) {
+    return job;
+  }
+
+  const updated = updateJob(id, { status: 'cancelled', message: 'Cancelled by user' });
+  controllers.get(id)?.abort();
+
+  job.childJobIds?.forEach((childId) => cancelJob(childId));
+
+  return updated;
+}
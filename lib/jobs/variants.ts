@@ -0,0 +1,75 @@
+import type { TrellisSettings } from '../services/base';
+
+/** Most variants a single convert-3d request may fan out into */
+export const MAX_VARIANTS = 16;
+
+/** Numeric Trellis settings that a variant grid may sweep over */
+export const GRID_SETTINGS = [
+  'resolution',
+  'decimation_target',
+  'texture_size',
+  'ss_guidance_strength',
+  'ss_guidance_rescale',
+  'ss_sampling_steps',
+  'ss_rescale_t',
+  'shape_slat_guidance_strength',
+  'shape_slat_guidance_rescale',
+  'shape_slat_sampling_steps',
+  'shape_slat_rescale_t',
+  'tex_slat_guidance_strength',
+  'tex_slat_sampling_steps',
+  'tex_slat_rescale_t',
+] as const;
+
+export type GridSetting = (typeof GRID_SETTINGS)[number];
+
+export type VariantGrid = Partial<Record<GridSetting, number[]>>;
+
+export interface VariantOptions {
+  /** Number of random seeds to try */
+  variants?: number;
+  /** Explicit seeds to try, instead of random ones */
+  seeds?: number[];
+  /** Values to try for each setting; every combination becomes a variant */
+  grid?: VariantGrid;
+}
+
+export function isGridSetting(key: string): key is GridSetting {
+  return (GRID_SETTINGS as readonly string[]).includes(key);
+}
+
+function randomSeed(): number {
+  return Math.floor(Math.random() * 1000000);
+}
+
+/**
+ * The settings that set each variant apart: one per combination of grid
+ * values and seeds. Seeds are always resolved here so every variant can be
+ * reproduced, and a grid without seeds shares one seed so only the swept
+ * settings differ.
+ */
+export function expandVariants(
+  settings: TrellisSettings | undefined,
+  { variants, seeds, grid }: VariantOptions
+): TrellisSettings[] {
+  const seedList =
+    seeds ??
+    (variants
+      ? Array.from({ length: variants }, randomSeed)
+      : [settings?.seed ?? randomSeed()]);
+
+  let points: TrellisSettings[] = [{}];
+  Object.entries(grid ?? {}).forEach(([key, values]) => {
+    points = points.flatMap((point) => values.map((value) => ({ ...point, [key]: value })));
+  });
+
+  return points.flatMap((point) => seedList.map((seed) => ({ ...point, seed })));
+}
+
+/**
+ * How many variants the options describe, without resolving any seeds
+ */
+export function countVariants({ variants, seeds, grid }: VariantOptions): number {
+  const seedCount = seeds?.length ?? variants ?? 1;
+  return Object.values(grid ?? {}).reduce((count, values) => count * values.length, seedCount);
+}
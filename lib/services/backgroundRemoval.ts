@@ -0,0 +1,60 @@
+import {
+  ServiceResult,
+  ProgressCallback,
+  RemoveBackgroundRequest,
+  RemoveBackgroundResponse,
+  BackgroundRemovalInfo,
+} from './base';
+import { backgroundRemovalProviders } from './registry';
+import { getConfig } from '../config';
+
+export interface BackgroundRemovalResult extends RemoveBackgroundResponse {
+  removal: BackgroundRemovalInfo;
+}
+
+/**
+ * Remove a background with the requested (or configured) provider, switching
+ * to the configured fallback when that provider is unavailable or fails
+ */
+export async function removeBackgroundWithFallback(
+  request: RemoveBackgroundRequest,
+  provider?: string,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<ServiceResult<BackgroundRemovalResult>> {
+  const primary = backgroundRemovalProviders.get(provider);
+  const fallbackName = getConfig().services.backgroundRemoval.fallback;
+  const fallback =
+    fallbackName && fallbackName !== primary.name && backgroundRemovalProviders.has(fallbackName)
+      ? backgroundRemovalProviders.get(fallbackName)
+      : null;
+
+  let reason: string;
+  if (!fallback || primary.isAvailable?.() !== false) {
+    const result = await primary.removeBackground(request, onProgress, signal);
+    if (result.success || !fallback || signal?.aborted) {
+      return {
+        ...result,
+        data: result.data && {
+          ...result.data,
+          removal: { method: primary.name, fallback: false },
+        },
+      };
+    }
+    reason = result.error || `${primary.name} failed`;
+  } else {
+    reason = `${primary.name} is disabled or not configured`;
+  }
+
+  console.warn(`Background removal falling back to ${fallback.name}: ${reason}`);
+  onProgress?.(0, `Falling back to ${fallback.name} background removal...`);
+
+  const result = await fallback.removeBackground(request, onProgress, signal);
+  return {
+    ...result,
+    data: result.data && {
+      ...result.data,
+      removal: { method: fallback.name, fallback: true, reason },
+    },
+  };
+}
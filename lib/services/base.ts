@@ -1,51 +1,149 @@
+import { ServiceError, ServiceErrorCode, classifyError } from './errors';
+import type { RetryPolicy } from '../config/schema';
+import type { RateLimiter } from './rateLimiter';
+
 export interface ServiceResult<T> {
   success: boolean;
   data?: T;
   error?: string;
+  errorCode?: ServiceErrorCode;
+}
+
+/**
+ * A failed attempt that is about to be retried
+ */
+export interface RetryAttempt {
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  code: ServiceErrorCode;
+  error: string;
+  at: string;
+  /** Pipeline step the retry belongs to, for multi-step jobs */
+  step?: string;
+}
+
+export interface ProgressDetails {
+  retry?: RetryAttempt;
 }
 
 export interface ProgressCallback {
-  (progress: number, message?: string): void;
+  (progress: number, message?: string, details?: ProgressDetails): void;
 }
 
+const CANCELLED: ServiceResult<never> = {
+  success: false,
+  error: 'Operation cancelled',
+  errorCode: 'cancelled',
+};
+
 export abstract class BaseService {
-  protected maxRetries: number;
-  protected retryDelay: number;
+  protected retryPolicy: RetryPolicy;
+  protected rateLimiter: RateLimiter | null;
+
+  constructor(retryPolicy: RetryPolicy, rateLimiter: RateLimiter | null = null) {
+    this.retryPolicy = retryPolicy;
+    this.rateLimiter = rateLimiter;
+  }
 
-  constructor(maxRetries: number = 2, retryDelay: number = 1000) {
-    this.maxRetries = maxRetries;
-    this.retryDelay = retryDelay;
+  /**
+   * Wait before the given retry: the upstream's Retry-After hint when it sent
+   * one, otherwise exponential backoff with jitter. Returns null when the
+   * hint is longer than the policy is willing to wait.
+   */
+  protected getRetryDelay(retry: number, error: ServiceError): number | null {
+    const { baseDelayMs, maxDelayMs, multiplier, jitter, maxRetryAfterMs } = this.retryPolicy;
+
+    if (error.retryAfterMs !== undefined) {
+      return error.retryAfterMs <= maxRetryAfterMs ? error.retryAfterMs : null;
+    }
+
+    const backoff = Math.min(maxDelayMs, baseDelayMs * Math.pow(multiplier, retry - 1));
+    return Math.round(backoff * (1 - jitter * Math.random()));
   }
 
   protected async withRetry<T>(
     operation: () => Promise<T>,
-    onProgress?: ProgressCallback
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
   ): Promise<ServiceResult<T>> {
-    let lastError: Error | null = null;
+    const { maxRetries } = this.retryPolicy;
+    let lastError: ServiceError | null = null;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      // Never retry once the caller has cancelled the operation
+      if (signal?.aborted) {
+        return CANCELLED;
+      }
 
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
       try {
-        if (attempt > 0) {
-          onProgress?.(0, `Retry attempt ${attempt}/${this.maxRetries}`);
-          await this.delay(this.retryDelay * attempt);
+        // Every attempt, retries included, counts against the provider's limits
+        const release = await this.rateLimiter?.acquire(onProgress, signal);
+        try {
+          const result = await operation();
+          return { success: true, data: result };
+        } finally {
+          release?.();
         }
-
-        const result = await operation();
-        return { success: true, data: result };
       } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        console.error(`Attempt ${attempt + 1} failed:`, lastError.message);
+        if (signal?.aborted) {
+          return CANCELLED;
+        }
+        lastError = classifyError(error);
+        console.error(`Attempt ${attempt + 1} failed (${lastError.code}):`, lastError.message);
+        if (!lastError.retryable || attempt === maxRetries) {
+          break;
+        }
+
+        const delayMs = this.getRetryDelay(attempt + 1, lastError);
+        if (delayMs === null) {
+          break;
+        }
+
+        const retry: RetryAttempt = {
+          attempt: attempt + 1,
+          maxRetries,
+          delayMs,
+          code: lastError.code,
+          error: lastError.message,
+          at: new Date().toISOString(),
+        };
+        onProgress?.(
+          0,
+          `Retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${retry.attempt}/${maxRetries}): ${lastError.message}`,
+          { retry }
+        );
+
+        try {
+          await this.delay(delayMs, signal);
+        } catch {
+          return CANCELLED;
+        }
       }
     }
 
     return {
       success: false,
       error: lastError?.message || 'Unknown error occurred',
+      errorCode: lastError?.code ?? 'unknown',
     };
   }
 
-  protected delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  /**
+   * Sleep for ms, rejecting early if the signal aborts
+   */
+  protected delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener(
+        'abort',
+        () => {
+          clearTimeout(timer);
+          reject(signal.reason);
+        },
+        { once: true }
+      );
+    });
   }
 
   protected async fetchWithTimeout(
@@ -83,6 +181,26 @@ export interface GenerateImageResponse {
   mimeType: string;
 }
 
+/**
+ * Text-to-image backend. Providers that cannot edit existing images
+ * leave enhanceImage undefined.
+ */
+export interface ImageGenerationProvider {
+  readonly name: string;
+  /** Upstream model id, recorded in asset provenance */
+  readonly model?: string;
+  generateImage(
+    request: GenerateImageRequest,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ServiceResult<GenerateImageResponse>>;
+  enhanceImage?(
+    request: EnhanceImageRequest,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ServiceResult<GenerateImageResponse>>;
+}
+
 export interface EnhanceImageRequest {
   imageUrl: string;
   prompt?: string;
@@ -96,6 +214,32 @@ export interface RemoveBackgroundResponse {
   imageUrl: string;
 }
 
+/**
+ * Which provider produced a no-bg image, and why a fallback was used
+ */
+export interface BackgroundRemovalInfo {
+  method: string;
+  fallback: boolean;
+  reason?: string;
+}
+
+/**
+ * Background removal backend. isAvailable lets a provider report that it
+ * is switched off or missing credentials so callers can skip straight to
+ * a fallback.
+ */
+export interface BackgroundRemovalProvider {
+  readonly name: string;
+  /** Upstream model id, recorded in asset provenance */
+  readonly model?: string;
+  isAvailable?(): boolean;
+  removeBackground(
+    request: RemoveBackgroundRequest,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ServiceResult<RemoveBackgroundResponse>>;
+}
+
 export interface TrellisSettings {
   resolution?: number;
   seed?: number;
@@ -125,4 +269,31 @@ export interface Convert3DRequest {
 
 export interface Convert3DResponse {
   modelUrl: string;
+  /** Seed the provider used, so the result can be reproduced */
+  seed?: number;
+}
+
+/**
+ * What an image-to-3D backend can do, so routes and the UI only offer
+ * options the selected provider understands
+ */
+export interface ImageTo3DCapabilities {
+  multiView: boolean;
+  textureSizes: number[];
+  seed: boolean;
+  pbr: boolean;
+  // Accepts the TrellisSettings sampling knobs
+  settings: boolean;
+}
+
+export interface ImageTo3DProvider {
+  readonly name: string;
+  /** Upstream model id, recorded in asset provenance */
+  readonly model?: string;
+  readonly capabilities: ImageTo3DCapabilities;
+  convertTo3D(
+    request: Convert3DRequest,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ServiceResult<Convert3DResponse>>;
 }
@@ -1,14 +1,17 @@
 import { fal } from '@fal-ai/client';
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
 import {
   BaseService,
   ServiceResult,
   ProgressCallback,
   RemoveBackgroundRequest,
   RemoveBackgroundResponse,
+  BackgroundRemovalProvider,
 } from './base';
-import { getFalApiKey, getConfig, BriaConfig } from '../config';
+import { ServiceError } from './errors';
+import { uploadToFalStorage } from './falStorage';
+import { isLocalUrl } from '../utils/localAssets';
+import { getRateLimiter } from './rateLimiter';
+import { getFalApiKey, getConfig, getRetryPolicy, BriaConfig } from '../config';
 
 interface BriaResult {
   image: {
@@ -18,16 +21,22 @@ interface BriaResult {
   };
 }
 
-export class BriaService extends BaseService {
+export class BriaService extends BaseService implements BackgroundRemovalProvider {
+  readonly name = 'bria';
+  readonly model = 'fal-ai/bria/background/remove';
   private initialized: boolean = false;
   private config: BriaConfig;
 
   constructor() {
     const appConfig = getConfig();
-    super(appConfig.bulk.retryAttempts);
+    super(getRetryPolicy('bria'), getRateLimiter('bria'));
     this.config = appConfig.services.bria;
   }
 
+  isAvailable(): boolean {
+    return this.config.enabled && !!process.env.FAL_KEY;
+  }
+
   private initialize(): void {
     if (!this.initialized) {
       fal.config({
@@ -37,67 +46,10 @@ export class BriaService extends BaseService {
     }
   }
 
-  private isLocalUrl(url: string): boolean {
-    try {
-      const parsed = new URL(url);
-      return parsed.hostname === 'localhost' || parsed.hostname === '127.0.0.1';
-    } catch {
-      return false;
-    }
-  }
-
-  private getLocalFilePath(localUrl: string): string | null {
-    try {
-      const parsed = new URL(localUrl);
-      const pathname = parsed.pathname;
-      // Convert /assets/... to public/assets/...
-      if (pathname.startsWith('/assets/')) {
-        return join(process.cwd(), 'public', pathname);
-      }
-      return null;
-    } catch {
-      return null;
-    }
-  }
-
-  private getMimeType(filePath: string): string {
-    const ext = filePath.split('.').pop()?.toLowerCase();
-    const mimeTypes: Record<string, string> = {
-      'png': 'image/png',
-      'jpg': 'image/jpeg',
-      'jpeg': 'image/jpeg',
-      'gif': 'image/gif',
-      'webp': 'image/webp',
-    };
-    return mimeTypes[ext || ''] || 'image/png';
-  }
-
-  private async uploadToFalStorage(localUrl: string, onProgress?: ProgressCallback): Promise<string> {
-    onProgress?.(15, 'Reading local image...');
-
-    const filePath = this.getLocalFilePath(localUrl);
-    if (!filePath || !existsSync(filePath)) {
-      throw new Error(`Local file not found: ${localUrl}`);
-    }
-
-    const fileBuffer = readFileSync(filePath);
-    const mimeType = this.getMimeType(filePath);
-    const fileName = filePath.split('/').pop() || 'image.png';
-
-    onProgress?.(20, 'Uploading to Fal storage...');
-
-    // Create a File-like object for fal.storage.upload
-    const file = new File([fileBuffer], fileName, { type: mimeType });
-    const uploadedUrl = await fal.storage.upload(file);
-
-    onProgress?.(25, 'Image uploaded...');
-
-    return uploadedUrl;
-  }
-
   async removeBackground(
     request: RemoveBackgroundRequest,
-    onProgress?: ProgressCallback
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
   ): Promise<ServiceResult<RemoveBackgroundResponse>> {
     return this.withRetry(async () => {
       this.initialize();
@@ -107,17 +59,18 @@ export class BriaService extends BaseService {
       let imageUrl = request.imageUrl;
 
       // If it's a localhost URL, upload to Fal storage
-      if (this.isLocalUrl(imageUrl)) {
-        imageUrl = await this.uploadToFalStorage(imageUrl, onProgress);
+      if (isLocalUrl(imageUrl)) {
+        imageUrl = await uploadToFalStorage(imageUrl, onProgress, [15, 20, 25]);
       }
 
       onProgress?.(30, 'Processing image...');
 
-      const result = await fal.subscribe('fal-ai/bria/background/remove', {
+      const result = await fal.subscribe(this.model, {
         input: {
           image_url: imageUrl,
         },
         logs: true,
+        abortSignal: signal,
         onQueueUpdate: (update) => {
           if (update.status === 'IN_PROGRESS') {
             onProgress?.(50, 'Removing background...');
@@ -131,7 +84,7 @@ export class BriaService extends BaseService {
 
       const data = result.data as BriaResult;
       if (!data?.image?.url) {
-        throw new Error('No image URL in response');
+        throw new ServiceError('no-output', 'No image URL in response');
       }
 
       onProgress?.(100, 'Background removed successfully');
@@ -139,7 +92,7 @@ export class BriaService extends BaseService {
       return {
         imageUrl: data.image.url,
       };
-    }, onProgress);
+    }, onProgress, signal);
   }
 }
 
@@ -0,0 +1,171 @@
+/**
+ * Failure classes shared by every provider. Kept free of server-only imports
+ * so pipeline components can map codes to messages too.
+ */
+export const SERVICE_ERROR_CODES = [
+  'auth',
+  'rate-limit',
+  'content-policy',
+  'invalid-input',
+  'upstream-timeout',
+  'no-output',
+  'cancelled',
+  'unknown',
+] as const;
+
+export type ServiceErrorCode = (typeof SERVICE_ERROR_CODES)[number];
+
+// Failures that will not go away by asking again
+const NON_RETRYABLE: ServiceErrorCode[] = ['auth', 'content-policy', 'invalid-input', 'cancelled'];
+
+export const SERVICE_ERROR_STATUS: Record<ServiceErrorCode, number> = {
+  auth: 502,
+  'rate-limit': 429,
+  'content-policy': 422,
+  'invalid-input': 400,
+  'upstream-timeout': 504,
+  'no-output': 502,
+  cancelled: 499,
+  unknown: 500,
+};
+
+/**
+ * What to tell the user for each class. Invalid input and unknown failures
+ * fall back to the provider's own message, which is usually more useful.
+ */
+export const SERVICE_ERROR_MESSAGES: Partial<Record<ServiceErrorCode, string>> = {
+  auth: 'The provider rejected the server credentials. Check the API keys in the server environment.',
+  'rate-limit': 'The provider is rate limiting or out of quota. Wait a moment and try again.',
+  'content-policy': "The request was blocked by the provider's content policy. Try a different prompt or image.",
+  'upstream-timeout': 'The provider took too long to respond. Please try again.',
+  'no-output': 'The provider returned no result. Try again or adjust the prompt or settings.',
+  cancelled: 'The job was cancelled.',
+};
+
+export class ServiceError extends Error {
+  readonly code: ServiceErrorCode;
+  readonly retryable: boolean;
+  /** How long the upstream asked us to wait before retrying, if it said */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    code: ServiceErrorCode,
+    message: string,
+    options: { cause?: unknown; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'ServiceError';
+    this.code = code;
+    this.retryable = !NON_RETRYABLE.includes(code);
+    this.retryAfterMs = options.retryAfterMs;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+
+  get status(): number {
+    return SERVICE_ERROR_STATUS[this.code];
+  }
+
+  /**
+   * Error for a failed HTTP response, classified by status and carrying
+   * any Retry-After hint
+   */
+  static fromResponse(response: Response, message: string): ServiceError {
+    const { code } = classifyError(Object.assign(new Error(message), { status: response.status }));
+    return new ServiceError(code, message, {
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    });
+  }
+
+  /**
+   * Rebuild the error a failed ServiceResult describes, for handlers that
+   * need to throw it on
+   */
+  static fromResult(
+    result: { error?: string; errorCode?: ServiceErrorCode },
+    fallbackMessage: string
+  ): ServiceError {
+    return new ServiceError(result.errorCode ?? 'unknown', result.error || fallbackMessage);
+  }
+}
+
+/**
+ * Parse a Retry-After value, given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Pull a retry hint out of the shapes provider SDK errors use: a Retry-After
+ * header, Google's RetryInfo detail ("30s"), or a retry_after body field
+ */
+function findRetryAfter(error: Error): number | undefined {
+  const source = error as {
+    headers?: { get?: (name: string) => string | null };
+    errorDetails?: Array<{ retryDelay?: string }>;
+    body?: { retry_after?: number | string };
+  };
+
+  const header = source.headers?.get?.('retry-after');
+  if (header) {
+    return parseRetryAfter(header);
+  }
+
+  const retryDelay = source.errorDetails?.find((detail) => detail?.retryDelay)?.retryDelay;
+  if (retryDelay) {
+    return parseRetryAfter(retryDelay.replace(/s$/, ''));
+  }
+
+  const bodyHint = source.body?.retry_after;
+  return bodyHint !== undefined ? parseRetryAfter(String(bodyHint)) : undefined;
+}
+
+/**
+ * Best-effort classification of errors thrown by provider SDKs, which expose
+ * an HTTP status on some errors and only a message on others
+ */
+export function classifyError(error: unknown): ServiceError {
+  if (error instanceof ServiceError) {
+    return error;
+  }
+
+  const err = error instanceof Error ? error : new Error(String(error));
+  const rawStatus = (err as { status?: unknown }).status;
+  const status = typeof rawStatus === 'number' ? rawStatus : undefined;
+  const message = err.message.toLowerCase();
+
+  let code: ServiceErrorCode = 'unknown';
+  if (
+    status === 401 ||
+    status === 403 ||
+    /api key|unauthori[sz]ed|forbidden|credentials|environment variable is not set/.test(message)
+  ) {
+    code = 'auth';
+  } else if (status === 429 || /quota|rate limit|too many requests|resource.?exhausted/.test(message)) {
+    code = 'rate-limit';
+  } else if (/safety|content policy|prohibited|blocked/.test(message)) {
+    code = 'content-policy';
+  } else if (
+    status === 408 ||
+    status === 504 ||
+    err.name === 'AbortError' ||
+    err.name === 'TimeoutError' ||
+    /timed? ?out|timeout|deadline/.test(message)
+  ) {
+    code = 'upstream-timeout';
+  } else if (status === 400 || status === 404 || status === 422) {
+    code = 'invalid-input';
+  }
+
+  return new ServiceError(code, err.message, { cause: error, retryAfterMs: findRetryAfter(err) });
+}
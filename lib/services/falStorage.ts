@@ -0,0 +1,49 @@
+import { fal } from '@fal-ai/client';
+import { readFileSync, existsSync } from 'fs';
+import { sep } from 'path';
+import { ProgressCallback } from './base';
+import { ServiceError } from './errors';
+import { getLocalAssetPath } from '../utils/localAssets';
+
+const MIME_TYPES: Record<string, string> = {
+  'png': 'image/png',
+  'jpg': 'image/jpeg',
+  'jpeg': 'image/jpeg',
+  'gif': 'image/gif',
+  'webp': 'image/webp',
+};
+
+function getMimeType(filePath: string): string {
+  const ext = filePath.split('.').pop()?.toLowerCase();
+  return MIME_TYPES[ext || ''] || 'image/png';
+}
+
+/**
+ * Upload a local asset to Fal storage and return the URL Fal can read it
+ * from. Progress is reported at the given reading, uploading and uploaded
+ * points. Fal must already be configured with credentials.
+ */
+export async function uploadToFalStorage(
+  localUrl: string,
+  onProgress?: ProgressCallback,
+  progress: [number, number, number] = [12, 15, 18]
+): Promise<string> {
+  onProgress?.(progress[0], 'Reading local image...');
+
+  const filePath = getLocalAssetPath(localUrl);
+  if (!filePath || !existsSync(filePath)) {
+    throw new ServiceError('invalid-input', `Local file not found: ${localUrl}`);
+  }
+
+  const fileBuffer = readFileSync(filePath);
+  const fileName = filePath.split(sep).pop() || 'image.png';
+
+  onProgress?.(progress[1], 'Uploading to Fal storage...');
+
+  const file = new File([fileBuffer], fileName, { type: getMimeType(filePath) });
+  const uploadedUrl = await fal.storage.upload(file);
+
+  onProgress?.(progress[2], 'Image uploaded...');
+
+  return uploadedUrl;
+}
@@ -1,4 +1,4 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GoogleGenerativeAI, GenerateContentResponse } from '@google/generative-ai';
 import {
   BaseService,
   ServiceResult,
@@ -7,19 +7,52 @@ import {
   GenerateImageResponse,
   EnhanceImageRequest,
   GeminiSettings,
+  ImageGenerationProvider,
 } from './base';
-import { getGeminiApiKey, getConfig, GeminiConfig } from '../config';
-
-export class GeminiService extends BaseService {
+import { ServiceError } from './errors';
+import { getRateLimiter } from './rateLimiter';
+import { getGeminiApiKey, getConfig, getRetryPolicy, GeminiConfig } from '../config';
+
+const BLOCKED_FINISH_REASONS = [
+  'SAFETY',
+  'RECITATION',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'IMAGE_SAFETY',
+];
+
+export class GeminiService extends BaseService implements ImageGenerationProvider {
+  readonly name = 'gemini';
   private client: GoogleGenerativeAI | null = null;
   private config: GeminiConfig;
 
   constructor() {
     const appConfig = getConfig();
-    super(appConfig.bulk.retryAttempts);
+    super(getRetryPolicy('gemini'), getRateLimiter('gemini'));
     this.config = appConfig.services.gemini;
   }
 
+  /**
+   * Fail with a content-policy error when Gemini refused the prompt or
+   * withheld the image for safety reasons
+   */
+  private checkBlocked(response: GenerateContentResponse): void {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new ServiceError('content-policy', `Prompt blocked by Gemini: ${blockReason}`);
+    }
+
+    const finishReason = response.candidates?.[0]?.finishReason as string | undefined;
+    if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+      throw new ServiceError('content-policy', `Response blocked by Gemini: ${finishReason}`);
+    }
+  }
+
+  get model(): string {
+    return this.config.model;
+  }
+
   private getClient(): GoogleGenerativeAI {
     if (!this.client) {
       this.client = new GoogleGenerativeAI(getGeminiApiKey());
@@ -29,7 +62,8 @@ export class GeminiService extends BaseService {
 
   async generateImage(
     request: GenerateImageRequest,
-    onProgress?: ProgressCallback
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
   ): Promise<ServiceResult<GenerateImageResponse>> {
     return this.withRetry(async () => {
       onProgress?.(10, 'Initializing Gemini...');
@@ -61,14 +95,15 @@ export class GeminiService extends BaseService {
 
       onProgress?.(30, 'Generating image...');
 
-      const result = await model.generateContent(request.prompt);
+      const result = await model.generateContent(request.prompt, { signal });
       const response = result.response;
 
       onProgress?.(80, 'Processing response...');
 
+      this.checkBlocked(response);
       const parts = response.candidates?.[0]?.content?.parts;
       if (!parts) {
-        throw new Error('No content in response');
+        throw new ServiceError('no-output', 'No content in response');
       }
 
       for (const part of parts) {
@@ -81,13 +116,14 @@ export class GeminiService extends BaseService {
         }
       }
 
-      throw new Error('No image data in response');
-    }, onProgress);
+      throw new ServiceError('no-output', 'No image data in response');
+    }, onProgress, signal);
   }
 
   async enhanceImage(
     request: EnhanceImageRequest,
-    onProgress?: ProgressCallback
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
   ): Promise<ServiceResult<GenerateImageResponse>> {
     return this.withRetry(async () => {
       onProgress?.(10, 'Initializing Gemini...');
@@ -103,9 +139,9 @@ export class GeminiService extends BaseService {
       onProgress?.(20, 'Loading source image...');
 
       // Fetch the image and convert to base64
-      const imageResponse = await fetch(request.imageUrl);
+      const imageResponse = await fetch(request.imageUrl, { signal });
       if (!imageResponse.ok) {
-        throw new Error('Failed to fetch source image');
+        throw ServiceError.fromResponse(imageResponse, 'Failed to fetch source image');
       }
       const imageBuffer = await imageResponse.arrayBuffer();
       const imageBase64 = Buffer.from(imageBuffer).toString('base64');
@@ -126,15 +162,16 @@ export class GeminiService extends BaseService {
           },
         },
         { text: prompt },
-      ]);
+      ], { signal });
 
       const response = result.response;
 
       onProgress?.(80, 'Processing response...');
 
+      this.checkBlocked(response);
       const parts = response.candidates?.[0]?.content?.parts;
       if (!parts) {
-        throw new Error('No content in response');
+        throw new ServiceError('no-output', 'No content in response');
       }
 
       for (const part of parts) {
@@ -147,8 +184,8 @@ export class GeminiService extends BaseService {
         }
       }
 
-      throw new Error('No image data in response');
-    }, onProgress);
+      throw new ServiceError('no-output', 'No image data in response');
+    }, onProgress, signal);
   }
 }
 
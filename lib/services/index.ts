@@ -1,4 +1,11 @@
 export * from './base';
+export * from './errors';
+export * from './rateLimiter';
 export * from './gemini';
 export * from './bria';
 export * from './trellis';
+export * from './triposr';
+export * from './mock';
+export * from './local';
+export * from './registry';
+export * from './backgroundRemoval';
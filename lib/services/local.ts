@@ -0,0 +1,173 @@
+import jpeg from 'jpeg-js';
+import {
+  BaseService,
+  ServiceResult,
+  ProgressCallback,
+  RemoveBackgroundRequest,
+  RemoveBackgroundResponse,
+  BackgroundRemovalProvider,
+} from './base';
+import { ServiceError } from './errors';
+import { getConfig, getRetryPolicy, BackgroundRemovalConfig } from '../config';
+import { RgbaImage, decodePng, encodePng } from '../utils/pngUtils';
+import { loadImageBytes } from '../utils/localAssets';
+
+/**
+ * On-device background removal. Flood-fills from the image border,
+ * treating pixels close in colour to the border as background, then
+ * feathers the resulting mask. Works well for product shots on plain
+ * backdrops and needs no API key.
+ */
+export class LocalBackgroundRemovalService extends BaseService implements BackgroundRemovalProvider {
+  readonly name = 'local';
+  private config: BackgroundRemovalConfig;
+
+  constructor() {
+    // Deterministic, so retrying would only repeat the same failure
+    super({ ...getRetryPolicy('local'), maxRetries: 0 });
+    this.config = getConfig().services.backgroundRemoval;
+  }
+
+  private decode(buffer: Buffer): RgbaImage {
+    try {
+      // JPEG files start with the SOI marker
+      if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+        const decoded = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true });
+        return { width: decoded.width, height: decoded.height, data: Buffer.from(decoded.data) };
+      }
+      return decodePng(buffer);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new ServiceError('invalid-input', `Cannot read image for local background removal: ${reason}`);
+    }
+  }
+
+  /**
+   * Mark background pixels by flood-filling inward from every border pixel.
+   * Each filled pixel is compared against the border colour it was reached
+   * from, so gradients and multi-coloured backdrops are still followed.
+   */
+  private floodFillBackground(image: RgbaImage): Uint8Array {
+    const { width, height, data } = image;
+    const total = width * height;
+    const background = new Uint8Array(total);
+    const seedOf = new Int32Array(total);
+    const queue = new Int32Array(total);
+    const toleranceSq = this.config.tolerance * this.config.tolerance;
+    let head = 0;
+    let tail = 0;
+
+    const visit = (index: number, seed: number) => {
+      if (background[index]) return;
+      const p = index * 4;
+      const s = seed * 4;
+      // Fully transparent pixels are background whatever their colour
+      if (data[p + 3] !== 0) {
+        const dr = data[p] - data[s];
+        const dg = data[p + 1] - data[s + 1];
+        const db = data[p + 2] - data[s + 2];
+        if (dr * dr + dg * dg + db * db > toleranceSq) return;
+      }
+      background[index] = 1;
+      seedOf[index] = seed;
+      queue[tail++] = index;
+    };
+
+    for (let x = 0; x < width; x++) {
+      visit(x, x);
+      visit((height - 1) * width + x, (height - 1) * width + x);
+    }
+    for (let y = 0; y < height; y++) {
+      visit(y * width, y * width);
+      visit(y * width + width - 1, y * width + width - 1);
+    }
+
+    while (head < tail) {
+      const index = queue[head++];
+      const seed = seedOf[index];
+      const x = index % width;
+      if (x > 0) visit(index - 1, seed);
+      if (x < width - 1) visit(index + 1, seed);
+      if (index >= width) visit(index - width, seed);
+      if (index < total - width) visit(index + width, seed);
+    }
+
+    return background;
+  }
+
+  /**
+   * Turn the background mask into alpha, softening the edge with a
+   * separable box blur of the configured radius
+   */
+  private featherMask(background: Uint8Array, width: number, height: number): Float32Array {
+    const radius = this.config.feather;
+    let alpha = new Float32Array(background.length);
+    for (let i = 0; i < background.length; i++) {
+      alpha[i] = background[i] ? 0 : 1;
+    }
+    if (radius <= 0) {
+      return alpha;
+    }
+
+    const size = radius * 2 + 1;
+    const blurred = new Float32Array(alpha.length);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sx = Math.min(width - 1, Math.max(0, x + k));
+          sum += alpha[y * width + sx];
+        }
+        blurred[y * width + x] = sum / size;
+      }
+    }
+
+    alpha = new Float32Array(alpha.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sy = Math.min(height - 1, Math.max(0, y + k));
+          sum += blurred[sy * width + x];
+        }
+        alpha[y * width + x] = sum / size;
+      }
+    }
+
+    return alpha;
+  }
+
+  async removeBackground(
+    request: RemoveBackgroundRequest,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ServiceResult<RemoveBackgroundResponse>> {
+    return this.withRetry(async () => {
+      onProgress?.(10, 'Loading image...');
+
+      const image = this.decode(await loadImageBytes(request.imageUrl, signal));
+
+      onProgress?.(40, 'Detecting background...');
+
+      const background = this.floodFillBackground(image);
+      signal?.throwIfAborted();
+
+      onProgress?.(70, 'Feathering edges...');
+
+      const alpha = this.featherMask(background, image.width, image.height);
+      for (let i = 0; i < alpha.length; i++) {
+        const a = i * 4 + 3;
+        image.data[a] = Math.round(image.data[a] * alpha[i]);
+      }
+
+      onProgress?.(100, 'Background removed successfully');
+
+      return {
+        imageUrl: `data:image/png;base64,${encodePng(image).toString('base64')}`,
+      };
+    }, onProgress, signal);
+  }
+}
+
+export const localBackgroundRemovalService = new LocalBackgroundRemovalService();
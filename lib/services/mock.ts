@@ -0,0 +1,239 @@
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join, resolve } from 'path';
+import {
+  BaseService,
+  ServiceResult,
+  ProgressCallback,
+  GenerateImageRequest,
+  GenerateImageResponse,
+  EnhanceImageRequest,
+  RemoveBackgroundRequest,
+  RemoveBackgroundResponse,
+  Convert3DRequest,
+  Convert3DResponse,
+  ImageGenerationProvider,
+  BackgroundRemovalProvider,
+  ImageTo3DCapabilities,
+  ImageTo3DProvider,
+} from './base';
+import { ServiceError } from './errors';
+import { getRateLimiter } from './rateLimiter';
+import { getConfig, getMockConfig, getRetryPolicy } from '../config';
+import {
+  RgbaImage,
+  createImage,
+  encodePng,
+  decodePng,
+  drawText,
+  wrapText,
+} from '../utils/pngUtils';
+import { loadImageBytes } from '../utils/localAssets';
+
+const MOCK_IMAGE_SIZE = 512;
+
+/**
+ * Wait out the configured latency, then fail at the configured rate
+ */
+async function simulateCall(
+  label: string,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<void> {
+  const { latencyMs, failureRate, failureCode } = getMockConfig();
+
+  onProgress?.(30, `Mock ${label}...`);
+
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, latencyMs);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+
+  if (failureRate > 0 && Math.random() < failureRate) {
+    throw new ServiceError(failureCode, `Injected mock ${label} failure (${failureCode})`);
+  }
+}
+
+// Stable pastel colour per prompt so the same prompt gives the same image
+function promptColor(text: string): [number, number, number, number] {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return [160 + (hash & 0x3f), 160 + ((hash >> 6) & 0x3f), 160 + ((hash >> 12) & 0x3f), 255];
+}
+
+function renderPromptImage(text: string): Buffer {
+  const image = createImage(MOCK_IMAGE_SIZE, MOCK_IMAGE_SIZE, promptColor(text));
+  const scale = 4;
+  const lineHeight = 10 * scale;
+  const lines = wrapText(text || 'mock image', 18).slice(0, 10);
+  const top = Math.round((MOCK_IMAGE_SIZE - lines.length * lineHeight) / 2);
+
+  lines.forEach((line, index) => {
+    const left = Math.round((MOCK_IMAGE_SIZE - line.length * 6 * scale) / 2);
+    drawText(image, line, left, top + index * lineHeight, scale, [32, 32, 48, 255]);
+  });
+
+  return encodePng(image);
+}
+
+// Keep an ellipse around the centre and fade everything outside it to transparent
+function applyMatte(image: RgbaImage): void {
+  const cx = image.width / 2;
+  const cy = image.height / 2;
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const dx = (x - cx) / (image.width * 0.42);
+      const dy = (y - cy) / (image.height * 0.45);
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      const coverage = Math.max(0, Math.min(1, (1.05 - distance) / 0.1));
+      const i = (y * image.width + x) * 4 + 3;
+      image.data[i] = Math.round(image.data[i] * coverage);
+    }
+  }
+}
+
+export class MockImageGenerationService extends BaseService implements ImageGenerationProvider {
+  readonly name = 'mock';
+
+  constructor() {
+    super(getRetryPolicy('mock'), getRateLimiter('mock'));
+  }
+
+  async generateImage(
+    request: GenerateImageRequest,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ServiceResult<GenerateImageResponse>> {
+    return this.withRetry(async () => {
+      await simulateCall('image generation', onProgress, signal);
+
+      onProgress?.(100, 'Image generated successfully');
+
+      return {
+        imageData: renderPromptImage(request.prompt).toString('base64'),
+        mimeType: 'image/png',
+      };
+    }, onProgress, signal);
+  }
+
+  async enhanceImage(
+    request: EnhanceImageRequest,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ServiceResult<GenerateImageResponse>> {
+    return this.withRetry(async () => {
+      await simulateCall('image enhancement', onProgress, signal);
+
+      onProgress?.(100, 'Image enhanced successfully');
+
+      return {
+        imageData: renderPromptImage(`enhanced ${request.prompt || ''}`).toString('base64'),
+        mimeType: 'image/png',
+      };
+    }, onProgress, signal);
+  }
+}
+
+export class MockBackgroundRemovalService extends BaseService implements BackgroundRemovalProvider {
+  readonly name = 'mock';
+
+  constructor() {
+    super(getRetryPolicy('mock'), getRateLimiter('mock'));
+  }
+
+  async removeBackground(
+    request: RemoveBackgroundRequest,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ServiceResult<RemoveBackgroundResponse>> {
+    return this.withRetry(async () => {
+      await simulateCall('background removal', onProgress, signal);
+
+      // Inputs the fixture decoder cannot read get a plain grey card instead
+      let image: RgbaImage;
+      try {
+        image = decodePng(await loadImageBytes(request.imageUrl, signal));
+      } catch {
+        signal?.throwIfAborted();
+        image = createImage(MOCK_IMAGE_SIZE, MOCK_IMAGE_SIZE, [128, 128, 128, 255]);
+      }
+      applyMatte(image);
+
+      onProgress?.(100, 'Background removed successfully');
+
+      return {
+        imageUrl: `data:image/png;base64,${encodePng(image).toString('base64')}`,
+      };
+    }, onProgress, signal);
+  }
+}
+
+export class MockImageTo3DService extends BaseService implements ImageTo3DProvider {
+  readonly name = 'mock';
+  readonly capabilities: ImageTo3DCapabilities = {
+    multiView: true,
+    textureSizes: [1024, 2048, 4096],
+    seed: true,
+    pbr: true,
+    settings: true,
+  };
+
+  constructor() {
+    super(getRetryPolicy('mock'), getRateLimiter('mock'));
+  }
+
+  /**
+   * The configured sample model, or the first GLB in the models directory
+   */
+  private getSampleModelPath(): string {
+    const { sampleModel } = getMockConfig();
+    if (sampleModel) {
+      return resolve(process.cwd(), sampleModel);
+    }
+
+    const modelsDir = resolve(process.cwd(), getConfig().storage.modelsDir);
+    const glb = existsSync(modelsDir)
+      ? readdirSync(modelsDir).filter((file) => file.endsWith('.glb')).sort()[0]
+      : undefined;
+    if (!glb) {
+      throw new Error('No sample GLB found; set services.mock.sampleModel in config.json');
+    }
+    return join(modelsDir, glb);
+  }
+
+  async convertTo3D(
+    request: Convert3DRequest,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ServiceResult<Convert3DResponse>> {
+    return this.withRetry(async () => {
+      const imageCount = request.imageUrls?.length || (request.imageUrl ? 1 : 0);
+      if (imageCount === 0) {
+        throw new ServiceError('invalid-input', 'At least one image URL is required');
+      }
+
+      await simulateCall('3D conversion', onProgress, signal);
+
+      const model = readFileSync(this.getSampleModelPath());
+
+      onProgress?.(100, '3D model generated successfully');
+
+      return {
+        modelUrl: `data:model/gltf-binary;base64,${model.toString('base64')}`,
+        seed: request.settings?.seed ?? Math.floor(Math.random() * 1000000),
+      };
+    }, onProgress, signal);
+  }
+}
+
+export const mockImageGenerationService = new MockImageGenerationService();
+export const mockBackgroundRemovalService = new MockBackgroundRemovalService();
+export const mockImageTo3DService = new MockImageTo3DService();
@@ -0,0 +1,134 @@
+import type { ProgressCallback } from './base';
+import { getConfig, RateLimit } from '../config';
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Token bucket plus in-flight cap for one provider. Tokens refill at
+ * requestsPerMinute; callers beyond the limits wait in FIFO order.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private waiters: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    readonly name: string,
+    private readonly limits: RateLimit
+  ) {
+    this.tokens = this.capacity;
+  }
+
+  private get capacity(): number {
+    return this.limits.burst ?? this.limits.maxConcurrent;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const refilled = ((now - this.lastRefill) * this.limits.requestsPerMinute) / 60000;
+    this.tokens = Math.min(this.capacity, this.tokens + refilled);
+    this.lastRefill = now;
+  }
+
+  private tryTake(): boolean {
+    this.refill();
+    if (this.inFlight >= this.limits.maxConcurrent || this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    this.inFlight += 1;
+    return true;
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.inFlight -= 1;
+      this.drain();
+    };
+  }
+
+  /**
+   * Hand slots to queued callers while limits allow, then wake up again
+   * once the next token is due if callers are still waiting on tokens
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.waiters.length > 0 && this.tryTake()) {
+      this.waiters.shift()!.resolve(this.createRelease());
+    }
+
+    // Waiters blocked on concurrency are woken by the next release instead
+    if (this.waiters.length > 0 && this.inFlight < this.limits.maxConcurrent) {
+      const waitMs = Math.ceil(((1 - this.tokens) * 60000) / this.limits.requestsPerMinute);
+      this.timer = setTimeout(() => this.drain(), Math.max(waitMs, 1));
+    }
+  }
+
+  /**
+   * Wait for a slot. Resolves with a function that must be called once the
+   * request has finished; rejects if the signal aborts while queued.
+   */
+  async acquire(onProgress?: ProgressCallback, signal?: AbortSignal): Promise<() => void> {
+    signal?.throwIfAborted();
+
+    if (this.waiters.length === 0 && this.tryTake()) {
+      return this.createRelease();
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject };
+      this.waiters.push(waiter);
+      onProgress?.(5, `Waiting for ${this.name} rate limit (${this.waiters.length} queued)...`);
+
+      signal?.addEventListener(
+        'abort',
+        () => {
+          const index = this.waiters.indexOf(waiter);
+          if (index === -1) return;
+          this.waiters.splice(index, 1);
+          reject(signal.reason);
+        },
+        { once: true }
+      );
+
+      this.drain();
+    });
+  }
+}
+
+// One limiter per provider for the whole process, shared by every route bundle
+const globalForLimiters = globalThis as unknown as {
+  rateLimiters?: Map<string, RateLimiter>;
+};
+
+const limiters =
+  globalForLimiters.rateLimiters ?? (globalForLimiters.rateLimiters = new Map());
+
+/**
+ * The shared limiter for a provider, or null when config.json sets no limits for it
+ */
+export function getRateLimiter(provider: string): RateLimiter | null {
+  const limits = getConfig().rateLimits[provider];
+  if (!limits) {
+    return null;
+  }
+
+  let limiter = limiters.get(provider);
+  if (!limiter) {
+    limiter = new RateLimiter(provider, limits);
+    limiters.set(provider, limiter);
+  }
+  return limiter;
+}
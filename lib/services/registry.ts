@@ -0,0 +1,87 @@
+import { getConfig, getMockConfig } from '../config';
+import {
+  ImageGenerationProvider,
+  BackgroundRemovalProvider,
+  ImageTo3DProvider,
+} from './base';
+import { ServiceError } from './errors';
+import { geminiService } from './gemini';
+import { briaService } from './bria';
+import { trellisService } from './trellis';
+import { tripoSRService } from './triposr';
+import { localBackgroundRemovalService } from './local';
+import {
+  mockImageGenerationService,
+  mockBackgroundRemovalService,
+  mockImageTo3DService,
+} from './mock';
+
+/**
+ * Named providers of one kind, with the default chosen from config.json
+ */
+export class ProviderRegistry<T extends { readonly name: string }> {
+  private providers = new Map<string, T>();
+
+  constructor(
+    private readonly kind: string,
+    private readonly getDefaultName: () => string
+  ) {}
+
+  register(provider: T): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  /**
+   * Look up a provider by name, falling back to the configured default
+   */
+  get(name?: string): T {
+    const providerName = name || this.getDefaultName();
+    const provider = this.providers.get(providerName);
+    if (!provider) {
+      throw new ServiceError(
+        'invalid-input',
+        `Unknown ${this.kind} provider: ${providerName}. Available: ${this.list().join(', ')}`
+      );
+    }
+    return provider;
+  }
+
+  list(): string[] {
+    return Array.from(this.providers.keys());
+  }
+}
+
+// Mock mode swaps every default for the offline fixture provider
+function defaultProvider(configured: string): string {
+  return getMockConfig().enabled ? 'mock' : configured;
+}
+
+export const imageGenerationProviders = new ProviderRegistry<ImageGenerationProvider>(
+  'image generation',
+  () => defaultProvider(getConfig().services.imageGen.provider)
+);
+
+imageGenerationProviders.register(geminiService);
+imageGenerationProviders.register(mockImageGenerationService);
+
+export const backgroundRemovalProviders = new ProviderRegistry<BackgroundRemovalProvider>(
+  'background removal',
+  () => defaultProvider(getConfig().services.backgroundRemoval.provider)
+);
+
+backgroundRemovalProviders.register(briaService);
+backgroundRemovalProviders.register(localBackgroundRemovalService);
+backgroundRemovalProviders.register(mockBackgroundRemovalService);
+
+export const imageTo3DProviders = new ProviderRegistry<ImageTo3DProvider>(
+  'image-to-3D',
+  () => defaultProvider(getConfig().services.imageTo3D.provider)
+);
+
+imageTo3DProviders.register(trellisService);
+imageTo3DProviders.register(tripoSRService);
+imageTo3DProviders.register(mockImageTo3DService);
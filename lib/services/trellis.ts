@@ -1,14 +1,18 @@
 import { fal } from '@fal-ai/client';
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
 import {
   BaseService,
   ServiceResult,
   ProgressCallback,
   Convert3DRequest,
   Convert3DResponse,
+  ImageTo3DCapabilities,
+  ImageTo3DProvider,
 } from './base';
-import { getFalApiKey, getConfig } from '../config';
+import { ServiceError } from './errors';
+import { uploadToFalStorage } from './falStorage';
+import { isLocalUrl } from '../utils/localAssets';
+import { getRateLimiter } from './rateLimiter';
+import { getFalApiKey, getRetryPolicy } from '../config';
 
 interface TrellisResult {
   model_glb: {
@@ -18,12 +22,21 @@ interface TrellisResult {
   };
 }
 
-export class TrellisService extends BaseService {
+export class TrellisService extends BaseService implements ImageTo3DProvider {
+  readonly name = 'trellis';
+  readonly model = 'fal-ai/trellis-2';
+  readonly capabilities: ImageTo3DCapabilities = {
+    multiView: true,
+    textureSizes: [1024, 2048, 4096],
+    seed: true,
+    pbr: true,
+    settings: true,
+  };
+
   private initialized: boolean = false;
 
   constructor() {
-    const appConfig = getConfig();
-    super(appConfig.bulk.retryAttempts);
+    super(getRetryPolicy('trellis'), getRateLimiter('trellis'));
   }
 
   private initialize(): void {
@@ -35,88 +48,10 @@ export class TrellisService extends BaseService {
     }
   }
 
-  private isLocalUrl(url: string): boolean {
-    try {
-      const parsed = new URL(url);
-      return parsed.hostname === 'localhost' || parsed.hostname === '127.0.0.1';
-    } catch {
-      return false;
-    }
-  }
-
-  private getLocalFilePath(localUrl: string): string | null {
-    // Handle relative paths (start with /)
-    if (localUrl.startsWith('/')) {
-      const pathname = localUrl;
-      // Convert /assets/... to public/assets/...
-      if (pathname.startsWith('/assets/')) {
-        return join(process.cwd(), 'public', pathname);
-      }
-      return null;
-    }
-
-    // Handle full URLs
-    try {
-      const parsed = new URL(localUrl);
-      const pathname = parsed.pathname;
-      // Convert /assets/... to public/assets/...
-      if (pathname.startsWith('/assets/')) {
-        return join(process.cwd(), 'public', pathname);
-      }
-      return null;
-    } catch {
-      return null;
-    }
-  }
-
-  private getMimeType(filePath: string): string {
-    const ext = filePath.split('.').pop()?.toLowerCase();
-    const mimeTypes: Record<string, string> = {
-      'png': 'image/png',
-      'jpg': 'image/jpeg',
-      'jpeg': 'image/jpeg',
-      'gif': 'image/gif',
-      'webp': 'image/webp',
-    };
-    return mimeTypes[ext || ''] || 'image/png';
-  }
-
-  private async uploadToFalStorage(localUrl: string, onProgress?: ProgressCallback): Promise<string> {
-    console.log('uploadToFalStorage called with:', localUrl);
-    onProgress?.(12, 'Reading local image...');
-
-    const filePath = this.getLocalFilePath(localUrl);
-    console.log('Resolved file path:', filePath);
-    console.log('File exists:', existsSync(filePath ?? ''));
-
-    if (!filePath || !existsSync(filePath)) {
-      throw new Error(`Local file not found: ${localUrl} -> ${filePath}`);
-    }
-
-    const fileBuffer = readFileSync(filePath);
-    const mimeType = this.getMimeType(filePath);
-    const fileName = filePath.split('/').pop() || 'image.png';
-
-    console.log('File size:', fileBuffer.length, 'bytes');
-    console.log('Mime type:', mimeType);
-    console.log('File name:', fileName);
-
-    onProgress?.(15, 'Uploading to Fal storage...');
-
-    // Create a File-like object for fal.storage.upload
-    const file = new File([fileBuffer], fileName, { type: mimeType });
-    console.log('Uploading file to Fal storage...');
-    const uploadedUrl = await fal.storage.upload(file);
-    console.log('Uploaded URL:', uploadedUrl);
-
-    onProgress?.(18, 'Image uploaded...');
-
-    return uploadedUrl;
-  }
-
   async convertTo3D(
     request: Convert3DRequest,
-    onProgress?: ProgressCallback
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
   ): Promise<ServiceResult<Convert3DResponse>> {
     return this.withRetry(async () => {
       this.initialize();
@@ -128,7 +63,7 @@ export class TrellisService extends BaseService {
       let imageUrls = request.imageUrls || (request.imageUrl ? [request.imageUrl] : []);
 
       if (imageUrls.length === 0) {
-        throw new Error('At least one image URL is required');
+        throw new ServiceError('invalid-input', 'At least one image URL is required');
       }
 
       // Upload any localhost URLs to Fal storage
@@ -136,15 +71,17 @@ export class TrellisService extends BaseService {
       console.log('Image URLs to process:', imageUrls);
       const uploadedUrls = await Promise.all(
         imageUrls.map(async (url) => {
-          console.log('Checking URL:', url, 'isLocal:', this.isLocalUrl(url), 'isRelative:', url.startsWith('/'));
-          if (this.isLocalUrl(url) || url.startsWith('/')) {
-            return await this.uploadToFalStorage(url, onProgress);
+          console.log('Checking URL:', url, 'isLocal:', isLocalUrl(url));
+          if (isLocalUrl(url)) {
+            return await uploadToFalStorage(url, onProgress);
           }
           return url;
         })
       );
 
       const settings = request.settings || {};
+      // Pick the seed here rather than upstream so it can be reported back
+      const seed = settings.seed ?? Math.floor(Math.random() * 1000000);
 
       const input: Record<string, unknown> = {
         ...(hasMultiple
@@ -152,7 +89,7 @@ export class TrellisService extends BaseService {
           : { image_url: uploadedUrls[0] }
         ),
         resolution: settings.resolution ?? 1024,
-        seed: settings.seed ?? Math.floor(Math.random() * 1000000),
+        seed,
         decimation_target: settings.decimation_target ?? 500000,
         texture_size: settings.texture_size ?? 2048,
         ss_guidance_strength: settings.ss_guidance_strength ?? 7.5,
@@ -173,9 +110,10 @@ export class TrellisService extends BaseService {
 
       onProgress?.(20, 'Submitting to Trellis-2...');
 
-      const result = await fal.subscribe('fal-ai/trellis-2', {
+      const result = await fal.subscribe(this.model, {
         input: input as any,
         logs: true,
+        abortSignal: signal,
         onQueueUpdate: (update: any) => {
           console.log('Queue update:', update.status);
           if (update.status === 'IN_PROGRESS') {
@@ -197,15 +135,16 @@ export class TrellisService extends BaseService {
       console.log('model_glb.url:', data?.model_glb?.url);
 
       if (!data?.model_glb?.url) {
-        throw new Error('No model URL in response');
+        throw new ServiceError('no-output', 'No model URL in response');
       }
 
       onProgress?.(100, '3D model generated successfully');
 
       return {
         modelUrl: data.model_glb.url,
+        seed,
       };
-    }, onProgress);
+    }, onProgress, signal);
   }
 }
 
@@ -0,0 +1,109 @@
+import { fal } from '@fal-ai/client';
+import {
+  BaseService,
+  ServiceResult,
+  ProgressCallback,
+  Convert3DRequest,
+  Convert3DResponse,
+  ImageTo3DCapabilities,
+  ImageTo3DProvider,
+} from './base';
+import { ServiceError } from './errors';
+import { uploadToFalStorage } from './falStorage';
+import { isLocalUrl } from '../utils/localAssets';
+import { getRateLimiter } from './rateLimiter';
+import { getFalApiKey, getRetryPolicy } from '../config';
+
+interface TripoSRResult {
+  model_mesh: {
+    url: string;
+    file_name: string;
+    file_size: number;
+  };
+}
+
+/**
+ * Fast single-view reconstruction. Has no sampling knobs, so Trellis
+ * settings are ignored.
+ */
+export class TripoSRService extends BaseService implements ImageTo3DProvider {
+  readonly name = 'triposr';
+  readonly model = 'fal-ai/triposr';
+  readonly capabilities: ImageTo3DCapabilities = {
+    multiView: false,
+    textureSizes: [],
+    seed: false,
+    pbr: false,
+    settings: false,
+  };
+
+  private initialized: boolean = false;
+
+  constructor() {
+    super(getRetryPolicy('triposr'), getRateLimiter('triposr'));
+  }
+
+  private initialize(): void {
+    if (!this.initialized) {
+      fal.config({
+        credentials: getFalApiKey(),
+      });
+      this.initialized = true;
+    }
+  }
+
+  async convertTo3D(
+    request: Convert3DRequest,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ServiceResult<Convert3DResponse>> {
+    return this.withRetry(async () => {
+      this.initialize();
+
+      onProgress?.(10, 'Initializing 3D conversion...');
+
+      let imageUrl = request.imageUrl || request.imageUrls?.[0];
+      if (!imageUrl) {
+        throw new ServiceError('invalid-input', 'An image URL is required');
+      }
+
+      if (isLocalUrl(imageUrl)) {
+        imageUrl = await uploadToFalStorage(imageUrl, onProgress);
+      }
+
+      onProgress?.(20, 'Submitting to TripoSR...');
+
+      const result = await fal.subscribe(this.model, {
+        input: {
+          image_url: imageUrl,
+          output_format: 'glb',
+          do_remove_background: false,
+        },
+        logs: true,
+        abortSignal: signal,
+        onQueueUpdate: (update) => {
+          if (update.status === 'IN_PROGRESS') {
+            onProgress?.(50, 'Generating 3D model...');
+          } else if (update.status === 'IN_QUEUE') {
+            onProgress?.(25, 'Queued for 3D conversion...');
+          }
+        },
+      });
+
+      onProgress?.(90, 'Finalizing 3D model...');
+
+      const data = result.data as TripoSRResult;
+      if (!data?.model_mesh?.url) {
+        throw new ServiceError('no-output', 'No model URL in response');
+      }
+
+      onProgress?.(100, '3D model generated successfully');
+
+      return {
+        modelUrl: data.model_mesh.url,
+      };
+    }, onProgress, signal);
+  }
+}
+
+export const tripoSRService = new TripoSRService();
@@ -1,15 +1,54 @@
+import { createHash } from 'crypto';
 import { readFileSync, writeFileSync, existsSync, mkdirSync, unlinkSync } from 'fs';
 import { join, basename } from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { getConfig } from '../config';
+import { getStorage, AssetFilter } from './backend';
+import { BackgroundRemovalInfo } from '../services/base';
+import { ImageFormat, ColorSpace, ImageInfo, readImageInfo } from '../utils/imageInfo';
+import type { ModelStats } from '../utils/modelStatsUtils';
+import type { OptimizePreset } from '../utils/optimizeUtils';
 
 export type AssetType = 'generated' | 'no-bg' | 'upload' | 'model';
 
 export interface AssetMetadata {
   width?: number;
   height?: number;
+  format?: ImageFormat;
+  colorSpace?: ColorSpace;
+  hasAlpha?: boolean;
   fileSize?: number;
   originalName?: string;
+  backgroundRemoval?: BackgroundRemovalInfo;
+  /** SHA-256 of the file contents, used to deduplicate saves */
+  sha256?: string;
+  /** Asset whose file this one shares, when it was saved as a duplicate */
+  aliasOf?: string;
+  /** Geometry and texture statistics for model assets, computed on demand */
+  modelStats?: ModelStats;
+  /** Preset used when this model was produced by optimizing another */
+  optimization?: { preset: OptimizePreset; sourceFileSize?: number };
+}
+
+/** API request that produced an asset, replayed by Reproduce */
+export interface ProvenanceRequest {
+  endpoint: string;
+  body: Record<string, unknown>;
+}
+
+/** How an asset was produced */
+export interface AssetProvenance {
+  jobId?: string;
+  provider?: string;
+  /** Upstream model id, such as the configured Gemini model */
+  model?: string;
+  settings?: Record<string, unknown>;
+  /** Seed the provider used, when it takes one */
+  seed?: number;
+  request?: ProvenanceRequest;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
 }
 
 export interface Asset {
@@ -17,42 +56,20 @@ export interface Asset {
   type: AssetType;
   path: string;
   prompt?: string;
+  /** First entry of sourceAssetIds */
   sourceAssetId?: string;
+  /** Every asset this one was made from, such as each view of a multi-view model */
+  sourceAssetIds: string[];
   createdAt: string;
   metadata: AssetMetadata;
+  provenance?: AssetProvenance;
 }
 
+/** Legacy assets.json format, kept for the SQLite import */
 export interface AssetsRegistry {
   assets: Asset[];
 }
 
-function getAssetsFilePath(): string {
-  const config = getConfig();
-  const dataDir = join(process.cwd(), config.storage.dataDir);
-  if (!existsSync(dataDir)) {
-    mkdirSync(dataDir, { recursive: true });
-  }
-  return join(dataDir, 'assets.json');
-}
-
-function loadAssetsRegistry(): AssetsRegistry {
-  const filePath = getAssetsFilePath();
-  if (!existsSync(filePath)) {
-    return { assets: [] };
-  }
-  try {
-    const content = readFileSync(filePath, 'utf-8');
-    return JSON.parse(content);
-  } catch {
-    return { assets: [] };
-  }
-}
-
-function saveAssetsRegistry(registry: AssetsRegistry): void {
-  const filePath = getAssetsFilePath();
-  writeFileSync(filePath, JSON.stringify(registry, null, 2));
-}
-
 export function slugify(text: string): string {
   return text
     .toLowerCase()
@@ -74,6 +91,22 @@ export function generateAssetFilename(
   return `${timestamp}_${uuidv4().slice(0, 8)}.${extension}`;
 }
 
+/**
+ * Provenance for an asset whose work began at startedAt and finished now
+ */
+export function createProvenance(
+  startedAt: Date,
+  fields: Omit<AssetProvenance, 'startedAt' | 'completedAt' | 'durationMs'>
+): AssetProvenance {
+  const completedAt = new Date();
+  return {
+    ...fields,
+    startedAt: startedAt.toISOString(),
+    completedAt: completedAt.toISOString(),
+    durationMs: completedAt.getTime() - startedAt.getTime(),
+  };
+}
+
 export function getAssetDirectory(type: AssetType): string {
   const config = getConfig();
   const baseDir = join(process.cwd(), config.storage.assetsDir);
@@ -98,12 +131,12 @@ export async function saveAsset(
     sourceAssetId?: string;
     filename?: string;
     metadata?: AssetMetadata;
+    provenance?: AssetProvenance;
   } = {}
 ): Promise<Asset> {
   const config = getConfig();
   const dir = getAssetDirectory(type);
   const filename = options.filename || generateAssetFilename(type, options.prompt);
-  const filePath = join(dir, filename);
 
   // Strip data URI prefix if present (e.g., "data:image/png;base64,")
   let dataToSave = data;
@@ -115,9 +148,32 @@ export async function saveAsset(
   }
 
   const buffer = typeof dataToSave === 'string' ? Buffer.from(dataToSave, 'base64') : dataToSave;
-  writeFileSync(filePath, buffer);
+  const sha256 = createHash('sha256').update(buffer).digest('hex');
+
+  // Identical content is never written twice. A save that would describe the
+  // same asset returns it; otherwise a new record shares the existing file,
+  // so metadata and provenance from this save are never dropped.
+  const existing = listAssets({ sha256 }).find((candidate) => candidate.type === type);
+  if (
+    existing &&
+    existing.prompt === options.prompt &&
+    existing.sourceAssetId === options.sourceAssetId &&
+    !options.provenance &&
+    Object.entries(options.metadata ?? {}).every(
+      ([key, value]) =>
+        JSON.stringify(existing.metadata[key as keyof AssetMetadata]) === JSON.stringify(value)
+    )
+  ) {
+    return existing;
+  }
 
-  const publicPath = getPublicAssetPath(type, filename);
+  let publicPath: string;
+  if (existing) {
+    publicPath = existing.path;
+  } else {
+    writeFileSync(join(dir, filename), buffer);
+    publicPath = getPublicAssetPath(type, filename);
+  }
 
   const asset: Asset = {
     id: uuidv4(),
@@ -125,16 +181,19 @@ export async function saveAsset(
     path: publicPath,
     prompt: options.prompt,
     sourceAssetId: options.sourceAssetId,
+    sourceAssetIds: options.sourceAssetId ? [options.sourceAssetId] : [],
     createdAt: new Date().toISOString(),
     metadata: {
       ...options.metadata,
+      ...readImageInfo(buffer),
       fileSize: buffer.length,
+      sha256,
+      aliasOf: existing?.metadata.aliasOf ?? existing?.id,
     },
+    provenance: options.provenance,
   };
 
-  const registry = loadAssetsRegistry();
-  registry.assets.push(asset);
-  saveAssetsRegistry(registry);
+  getStorage().insertAsset(asset);
 
   return asset;
 }
@@ -147,6 +206,7 @@ export async function saveAssetFromUrl(
     sourceAssetId?: string;
     filename?: string;
     metadata?: AssetMetadata;
+    provenance?: AssetProvenance;
   } = {}
 ): Promise<Asset> {
   const response = await fetch(url);
@@ -158,71 +218,195 @@ export async function saveAssetFromUrl(
 
   let filename = options.filename;
   if (!filename) {
-    const urlPath = new URL(url).pathname;
-    const ext = urlPath.split('.').pop() || 'png';
+    // Data URLs carry the type in their MIME prefix rather than a file extension
+    const ext = url.startsWith('data:')
+      ? url.slice(5, url.indexOf(';')).split('/').pop() || 'png'
+      : new URL(url).pathname.split('.').pop() || 'png';
     filename = generateAssetFilename(type, options.prompt, ext);
   }
 
   return saveAsset(type, buffer, { ...options, filename });
 }
 
-export function listAssets(filter?: {
-  type?: AssetType;
-  search?: string;
-}): Asset[] {
-  const registry = loadAssetsRegistry();
-  let assets = registry.assets;
+export function listAssets(filter?: AssetFilter): Asset[] {
+  return getStorage().listAssets(filter);
+}
 
-  if (filter?.type) {
-    assets = assets.filter((a) => a.type === filter.type);
-  }
+/**
+ * Assets that share their contents with at least one other asset, grouped
+ * by content hash. Assets saved before hashing was added are not included.
+ */
+export function listDuplicateGroups(): { sha256: string; assets: Asset[] }[] {
+  const groups = new Map<string, Asset[]>();
+  listAssets({ duplicates: true }).forEach((asset) => {
+    const sha256 = asset.metadata.sha256!;
+    groups.set(sha256, [...(groups.get(sha256) ?? []), asset]);
+  });
+
+  const result: { sha256: string; assets: Asset[] }[] = [];
+  groups.forEach((assets, sha256) => result.push({ sha256, assets }));
+  return result;
+}
 
-  if (filter?.search) {
-    const searchLower = filter.search.toLowerCase();
-    assets = assets.filter(
-      (a) =>
-        a.prompt?.toLowerCase().includes(searchLower) ||
-        a.path.toLowerCase().includes(searchLower)
-    );
+export function getAsset(id: string): Asset | null {
+  return getStorage().getAsset(id);
+}
+
+/**
+ * Merge new fields into an asset's metadata
+ */
+export function updateAssetMetadata(id: string, updates: Partial<AssetMetadata>): Asset | null {
+  const asset = getAsset(id);
+  if (!asset) {
+    return null;
   }
+  return getStorage().updateAssetMetadata(id, { ...asset.metadata, ...updates });
+}
 
-  return assets.sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
+/**
+ * Header info for an image served from the public assets directory, or null
+ * for remote URLs and files that cannot be read
+ */
+export function getLocalImageInfo(url: string): ImageInfo | null {
+  try {
+    const pathname = url.startsWith('/') ? url : new URL(url).pathname;
+    const assetsRoot = join(process.cwd(), 'public', 'assets');
+    const filePath = join(process.cwd(), 'public', pathname);
+    if (!filePath.startsWith(`${assetsRoot}/`) || !existsSync(filePath)) {
+      return null;
+    }
+    return readImageInfo(readFileSync(filePath));
+  } catch {
+    return null;
+  }
 }
 
-export function getAsset(id: string): Asset | null {
-  const registry = loadAssetsRegistry();
-  return registry.assets.find((a) => a.id === id) || null;
+/**
+ * The asset served at a local /assets/... URL, or null for remote URLs and
+ * unknown files. Prefers the original over assets that alias its file.
+ */
+export function findAssetByUrl(url: string): Asset | null {
+  try {
+    const pathname = url.startsWith('/') ? url : new URL(url).pathname;
+    if (!pathname.startsWith('/assets/')) {
+      return null;
+    }
+    const matches = listAssets({ path: decodeURIComponent(pathname) });
+    return matches.find((asset) => !asset.metadata.aliasOf) ?? matches[matches.length - 1] ?? null;
+  } catch {
+    return null;
+  }
 }
 
+/**
+ * Every ancestor of an asset followed by the asset itself. Sources always
+ * come before the assets made from them, so all input views of a
+ * multi-view model are included ahead of it.
+ */
 export function getAssetLineage(id: string): Asset[] {
   const lineage: Asset[] = [];
-  let currentId: string | undefined = id;
-
-  while (currentId) {
-    const asset = getAsset(currentId);
-    if (!asset) break;
+  const visited = new Set<string>();
+
+  const visit = (assetId: string) => {
+    if (visited.has(assetId)) return;
+    visited.add(assetId);
+    const asset = getAsset(assetId);
+    if (!asset) return;
+    asset.sourceAssetIds.forEach(visit);
     lineage.push(asset);
-    currentId = asset.sourceAssetId;
+  };
+
+  visit(id);
+  return lineage;
+}
+
+/** Edge in an asset graph, from a source asset to an asset derived from it */
+export interface AssetGraphEdge {
+  from: string;
+  to: string;
+}
+
+export interface AssetGraph {
+  rootId: string;
+  nodes: Asset[];
+  edges: AssetGraphEdge[];
+}
+
+/**
+ * The lineage DAG around an asset: all of its ancestors and all of its
+ * descendants, with an edge for every source relationship between them
+ */
+export function getAssetGraph(id: string): AssetGraph | null {
+  const root = getAsset(id);
+  if (!root) {
+    return null;
   }
 
-  return lineage.reverse();
+  const nodes = new Map<string, Asset>([[root.id, root]]);
+  const edges = new Map<string, AssetGraphEdge>();
+  const addEdge = (from: string, to: string) => edges.set(`${from}>${to}`, { from, to });
+
+  const ancestors = [root];
+  while (ancestors.length > 0) {
+    const asset = ancestors.pop()!;
+    asset.sourceAssetIds.forEach((sourceId) => {
+      const source = nodes.get(sourceId) ?? getAsset(sourceId);
+      if (!source) return;
+      addEdge(source.id, asset.id);
+      if (!nodes.has(source.id)) {
+        nodes.set(source.id, source);
+        ancestors.push(source);
+      }
+    });
+  }
+
+  const descendants = [root];
+  const visited = new Set<string>([root.id]);
+  while (descendants.length > 0) {
+    const asset = descendants.pop()!;
+    listAssets({ sourceAssetId: asset.id }).forEach((derived) => {
+      addEdge(asset.id, derived.id);
+      nodes.set(derived.id, derived);
+      if (visited.has(derived.id)) return;
+      visited.add(derived.id);
+      descendants.push(derived);
+
+      // Show the other views of a multi-view model alongside this one
+      if (derived.sourceAssetIds.length > 1) {
+        derived.sourceAssetIds.forEach((sourceId) => {
+          const source = nodes.get(sourceId) ?? getAsset(sourceId);
+          if (!source) return;
+          nodes.set(source.id, source);
+          addEdge(source.id, derived.id);
+        });
+      }
+    });
+  }
+
+  return {
+    rootId: root.id,
+    nodes: Array.from(nodes.values()),
+    edges: Array.from(edges.values()),
+  };
 }
 
 export function deleteAsset(id: string): boolean {
-  const registry = loadAssetsRegistry();
-  const index = registry.assets.findIndex((a) => a.id === id);
+  const asset = getStorage().getAsset(id);
 
-  if (index === -1) {
+  if (!asset) {
     return false;
   }
 
-  const asset = registry.assets[index];
+  // Keep the file while duplicates of this asset still point at it
+  const shared =
+    !!asset.metadata.sha256 &&
+    listAssets({ sha256: asset.metadata.sha256 }).some(
+      (other) => other.id !== id && other.path === asset.path
+    );
 
   // Delete the file
   const filePath = join(process.cwd(), 'public', asset.path);
-  if (existsSync(filePath)) {
+  if (!shared && existsSync(filePath)) {
     try {
       unlinkSync(filePath);
     } catch (error) {
@@ -230,10 +414,7 @@ export function deleteAsset(id: string): boolean {
     }
   }
 
-  registry.assets.splice(index, 1);
-  saveAssetsRegistry(registry);
-
-  return true;
+  return getStorage().deleteAsset(id);
 }
 
 export function getModelsDirectory(): string {
@@ -246,19 +427,28 @@ export function getModelsDirectory(): string {
 }
 
 export async function saveModel(
-  url: string,
+  source: string | Buffer | Uint8Array,
   options: {
     filename?: string;
     sourceAssetId?: string;
+    /** All input assets, for models made from several views */
+    sourceAssetIds?: string[];
     prompt?: string;
+    metadata?: AssetMetadata;
+    provenance?: AssetProvenance;
   } = {}
 ): Promise<Asset> {
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch model from URL: ${response.statusText}`);
+  let buffer: Buffer;
+  if (typeof source === 'string') {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch model from URL: ${response.statusText}`);
+    }
+    buffer = Buffer.from(await response.arrayBuffer());
+  } else {
+    buffer = Buffer.from(source);
   }
 
-  const buffer = Buffer.from(await response.arrayBuffer());
   const modelsDir = getModelsDirectory();
   const filename = options.filename || `${Date.now()}_${uuidv4().slice(0, 8)}.glb`;
   const filePath = join(modelsDir, filename);
@@ -267,10 +457,13 @@ export async function saveModel(
 
   const publicPath = `/models/${filename}`;
 
+  const sourceAssetIds =
+    options.sourceAssetIds ?? (options.sourceAssetId ? [options.sourceAssetId] : []);
+
   // Get prompt from source asset if not provided
   let prompt = options.prompt;
-  if (!prompt && options.sourceAssetId) {
-    const sourceAsset = getAsset(options.sourceAssetId);
+  if (!prompt && sourceAssetIds.length > 0) {
+    const sourceAsset = getAsset(sourceAssetIds[0]);
     if (sourceAsset?.prompt) {
       prompt = sourceAsset.prompt;
     }
@@ -281,16 +474,17 @@ export async function saveModel(
     type: 'model',
     path: publicPath,
     prompt,
-    sourceAssetId: options.sourceAssetId,
+    sourceAssetId: sourceAssetIds[0],
+    sourceAssetIds,
     createdAt: new Date().toISOString(),
     metadata: {
+      ...options.metadata,
       fileSize: buffer.length,
     },
+    provenance: options.provenance,
   };
 
-  const registry = loadAssetsRegistry();
-  registry.assets.push(asset);
-  saveAssetsRegistry(registry);
+  getStorage().insertAsset(asset);
 
   return asset;
 }
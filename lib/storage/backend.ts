@@ -0,0 +1,71 @@
+import type { Asset, AssetMetadata, AssetType } from './assets';
+import type { Job, JobType, JobStatus } from './jobs';
+import type { CacheEntry } from './cache';
+import { SqliteBackend } from './sqlite';
+
+export interface AssetFilter {
+  type?: AssetType;
+  search?: string;
+  /** Content hash recorded in the asset metadata */
+  sha256?: string;
+  /** Only assets whose content hash is shared with another asset */
+  duplicates?: boolean;
+  /** Assets derived directly from this asset */
+  sourceAssetId?: string;
+  /** Public path the asset is served from */
+  path?: string;
+}
+
+export interface JobFilter {
+  type?: JobType;
+  status?: JobStatus;
+  parentJobId?: string;
+  limit?: number;
+}
+
+export type JobUpdates = Partial<
+  Pick<
+    Job,
+    'status' | 'progress' | 'message' | 'output' | 'completedAt' | 'updatedAt' | 'attempts'
+  >
+>;
+
+/**
+ * Persistence layer behind the asset and job registries.
+ * Implementations must be synchronous and safe for concurrent route handlers.
+ */
+export interface StorageBackend {
+  insertAsset(asset: Asset): void;
+  getAsset(id: string): Asset | null;
+  listAssets(filter?: AssetFilter): Asset[];
+  /** Replace an asset's metadata, returning the updated asset */
+  updateAssetMetadata(id: string, metadata: AssetMetadata): Asset | null;
+  /** Delete an asset along with any cached results that point at it */
+  deleteAsset(id: string): boolean;
+
+  /** Insert a job and link it to its parent in a single transaction */
+  insertJob(job: Job): Job;
+  updateJob(id: string, updates: JobUpdates): Job | null;
+  getJob(id: string): Job | null;
+  listJobs(filter?: JobFilter): Job[];
+  /** Delete a job along with any child jobs it fanned out into */
+  deleteJob(id: string): boolean;
+  /** Move the oldest pending job of a type to processing and bump its attempts */
+  claimNextJob(type: JobType, updatedAt: string): Job | null;
+  /** Delete finished jobs created before the cutoff, returning the count */
+  deleteFinishedJobsBefore(cutoff: string): number;
+
+  getCacheEntry(key: string): CacheEntry | null;
+  /** Insert or replace the cached result for a key */
+  putCacheEntry(entry: CacheEntry): void;
+}
+
+// Shared across route bundles so every route uses one database connection
+const globalForStorage = globalThis as unknown as { storageBackend?: StorageBackend };
+
+export function getStorage(): StorageBackend {
+  if (!globalForStorage.storageBackend) {
+    globalForStorage.storageBackend = new SqliteBackend();
+  }
+  return globalForStorage.storageBackend;
+}
@@ -0,0 +1,117 @@
+import { createHash } from 'crypto';
+import { getStorage } from './backend';
+import { Asset, getAsset } from './assets';
+import { loadImageBytes } from '../utils/localAssets';
+
+export type CacheOperation = 'generate' | 'remove-bg' | 'convert-3d';
+
+/**
+ * A previous service result, stored as the asset it produced
+ */
+export interface CacheEntry {
+  key: string;
+  operation: CacheOperation;
+  provider: string;
+  assetId: string;
+  jobId?: string;
+  createdAt: string;
+}
+
+export interface CacheKeyInput {
+  operation: CacheOperation;
+  provider: string;
+  prompt?: string;
+  imageUrls?: string[];
+  /** Provider settings, including the seed when one was given */
+  settings?: unknown;
+  /**
+   * The provider samples randomly, so a call only repeats its result when
+   * the settings carry an explicit seed
+   */
+  random?: boolean;
+}
+
+export interface CachedResult {
+  asset: Asset;
+  jobId?: string;
+}
+
+// JSON with sorted object keys, so settings hash the same whatever their order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Hash of everything that determines a service result: the operation,
+ * provider, prompt, settings and the bytes of each input image. Returns
+ * null, so the call is not cached, for unseeded calls to a random provider
+ * and when an input image cannot be read, in which case the provider
+ * reports the failure itself.
+ */
+export async function computeCacheKey(
+  input: CacheKeyInput,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const seed = (input.settings as { seed?: unknown } | undefined)?.seed;
+  if (input.random && (seed === undefined || seed === null)) {
+    return null;
+  }
+
+  const hash = createHash('sha256');
+  hash.update(
+    stableStringify({
+      operation: input.operation,
+      provider: input.provider,
+      prompt: input.prompt,
+      settings: input.settings ?? {},
+    })
+  );
+
+  const imageUrls = input.imageUrls ?? [];
+  for (let i = 0; i < imageUrls.length; i++) {
+    try {
+      const bytes = await loadImageBytes(imageUrls[i], signal);
+      hash.update(createHash('sha256').update(bytes).digest());
+    } catch {
+      signal?.throwIfAborted();
+      return null;
+    }
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * The asset a previous call with the same key produced, if it still exists
+ */
+export function getCachedResult(key: string | null): CachedResult | null {
+  if (!key) {
+    return null;
+  }
+
+  const entry = getStorage().getCacheEntry(key);
+  const asset = entry ? getAsset(entry.assetId) : null;
+  return entry && asset ? { asset, jobId: entry.jobId } : null;
+}
+
+export function cacheResult(
+  key: string | null,
+  entry: Omit<CacheEntry, 'key' | 'createdAt'>
+): void {
+  if (!key) {
+    return;
+  }
+
+  getStorage().putCacheEntry({ ...entry, key, createdAt: new Date().toISOString() });
+}
@@ -1,10 +1,11 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { join } from 'path';
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
-import { getConfig } from '../config';
+import { getStorage, JobUpdates } from './backend';
+import type { ServiceErrorCode } from '../services/errors';
+import type { RetryAttempt } from '../services/base';
 
-export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed';
-export type JobType = 'generate' | 'remove-bg' | 'convert-3d' | 'pipeline' | 'bulk';
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+export type JobType = 'generate' | 'remove-bg' | 'convert-3d' | 'optimize' | 'pipeline' | 'bulk';
 
 export interface JobInput {
   prompt?: string;
@@ -12,8 +13,24 @@ export interface JobInput {
   imageUrls?: string[];
   assetId?: string;
   assetIds?: string[];
+  provider?: string;
   options?: Record<string, unknown>;
   settings?: Record<string, unknown>;
+  /** Call the provider even when a cached result exists */
+  force?: boolean;
+}
+
+export interface BulkItemResult {
+  index: number;
+  jobId: string;
+  success: boolean;
+  assetId?: string;
+  modelPath?: string;
+  error?: string;
+  errorCode?: ServiceErrorCode;
+  /** Settings that set this 3D variant apart from its siblings */
+  variant?: Record<string, number>;
+  warnings?: string[];
 }
 
 export interface JobOutput {
@@ -21,6 +38,20 @@ export interface JobOutput {
   assetPath?: string;
   modelPath?: string;
   error?: string;
+  errorCode?: ServiceErrorCode;
+  results?: BulkItemResult[];
+  /** Asset produced by each finished pipeline step, used to resume retries */
+  steps?: Record<string, string>;
+  /** Provider calls that failed and were retried while the job ran */
+  retries?: RetryAttempt[];
+  /** Set when the result was reused from the cache instead of calling the provider */
+  cacheHit?: boolean;
+  /** Job that originally produced the reused result */
+  cachedFromJobId?: string;
+  /** Non-fatal problems with the input, such as images without alpha */
+  warnings?: string[];
+  /** Seed the 3D provider used, for reproducing the model */
+  seed?: number;
 }
 
 export interface Job {
@@ -36,37 +67,35 @@ export interface Job {
   completedAt?: string;
   parentJobId?: string;
   childJobIds?: string[];
+  /** Number of times a queue worker has picked up this job */
+  attempts?: number;
 }
 
+/** Legacy jobs.json format, kept for the SQLite import */
 export interface JobsRegistry {
   jobs: Job[];
 }
 
-function getJobsFilePath(): string {
-  const config = getConfig();
-  const dataDir = join(process.cwd(), config.storage.dataDir);
-  if (!existsSync(dataDir)) {
-    mkdirSync(dataDir, { recursive: true });
-  }
-  return join(dataDir, 'jobs.json');
-}
+export type JobListener = (job: Job) => void;
 
-function loadJobsRegistry(): JobsRegistry {
-  const filePath = getJobsFilePath();
-  if (!existsSync(filePath)) {
-    return { jobs: [] };
-  }
-  try {
-    const content = readFileSync(filePath, 'utf-8');
-    return JSON.parse(content);
-  } catch {
-    return { jobs: [] };
-  }
+// Shared across route bundles so subscribers see updates made by any route
+const globalForJobs = globalThis as unknown as { jobEvents?: EventEmitter };
+
+const jobEvents = globalForJobs.jobEvents ?? (globalForJobs.jobEvents = new EventEmitter());
+jobEvents.setMaxListeners(0);
+
+/**
+ * Listen for updates to a single job. Returns an unsubscribe function.
+ */
+export function subscribeToJob(id: string, listener: JobListener): () => void {
+  jobEvents.on(id, listener);
+  return () => {
+    jobEvents.off(id, listener);
+  };
 }
 
-function saveJobsRegistry(registry: JobsRegistry): void {
-  const filePath = getJobsFilePath();
-  writeFileSync(filePath, JSON.stringify(registry, null, 2));
+export function isTerminalStatus(status: JobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
 }
 
 export function createJob(
@@ -86,112 +115,76 @@ export function createJob(
     parentJobId,
   };
 
-  const registry = loadJobsRegistry();
-  registry.jobs.push(job);
-
-  if (parentJobId) {
-    const parentIndex = registry.jobs.findIndex((j) => j.id === parentJobId);
-    if (parentIndex !== -1) {
-      if (!registry.jobs[parentIndex].childJobIds) {
-        registry.jobs[parentIndex].childJobIds = [];
-      }
-      registry.jobs[parentIndex].childJobIds!.push(job.id);
-    }
-  }
-
-  saveJobsRegistry(registry);
-
-  return job;
+  return getStorage().insertJob(job);
 }
 
 export function updateJob(
   id: string,
   updates: Partial<Pick<Job, 'status' | 'progress' | 'message' | 'output'>>
 ): Job | null {
-  const registry = loadJobsRegistry();
-  const index = registry.jobs.findIndex((j) => j.id === id);
-
-  if (index === -1) {
-    return null;
-  }
-
-  const job = registry.jobs[index];
   const now = new Date().toISOString();
+  const changes: JobUpdates = { ...updates, updatedAt: now };
 
-  Object.assign(job, updates, { updatedAt: now });
-
-  if (updates.status === 'completed' || updates.status === 'failed') {
-    job.completedAt = now;
+  if (updates.status) {
+    changes.completedAt = isTerminalStatus(updates.status) ? now : undefined;
   }
 
-  saveJobsRegistry(registry);
+  const job = getStorage().updateJob(id, changes);
+  if (job) {
+    jobEvents.emit(id, job);
+  }
 
   return job;
 }
 
 export function getJob(id: string): Job | null {
-  const registry = loadJobsRegistry();
-  return registry.jobs.find((j) => j.id === id) || null;
+  return getStorage().getJob(id);
 }
 
 export function listJobs(filter?: {
   type?: JobType;
   status?: JobStatus;
+  parentJobId?: string;
   limit?: number;
 }): Job[] {
-  const registry = loadJobsRegistry();
-  let jobs = registry.jobs;
-
-  if (filter?.type) {
-    jobs = jobs.filter((j) => j.type === filter.type);
-  }
-
-  if (filter?.status) {
-    jobs = jobs.filter((j) => j.status === filter.status);
-  }
-
-  jobs = jobs.sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
-
-  if (filter?.limit) {
-    jobs = jobs.slice(0, filter.limit);
-  }
-
-  return jobs;
+  return getStorage().listJobs(filter);
 }
 
 export function deleteJob(id: string): boolean {
-  const registry = loadJobsRegistry();
-  const index = registry.jobs.findIndex((j) => j.id === id);
+  return getStorage().deleteJob(id);
+}
 
-  if (index === -1) {
-    return false;
+/**
+ * Atomically claim the oldest pending job of a type for a queue worker
+ */
+export function claimNextJob(type: JobType): Job | null {
+  const job = getStorage().claimNextJob(type, new Date().toISOString());
+  if (job) {
+    jobEvents.emit(job.id, job);
   }
-
-  registry.jobs.splice(index, 1);
-  saveJobsRegistry(registry);
-
-  return true;
+  return job;
 }
 
-export function cleanupOldJobs(maxAge: number = 7 * 24 * 60 * 60 * 1000): number {
-  const registry = loadJobsRegistry();
-  const cutoff = Date.now() - maxAge;
-
-  const originalCount = registry.jobs.length;
-  registry.jobs = registry.jobs.filter(
-    (j) =>
-      j.status === 'pending' ||
-      j.status === 'processing' ||
-      new Date(j.createdAt).getTime() > cutoff
-  );
-
-  const removedCount = originalCount - registry.jobs.length;
-
-  if (removedCount > 0) {
-    saveJobsRegistry(registry);
+/**
+ * Put a finished job back in the queue with a fresh attempt budget
+ */
+export function requeueJob(id: string, message: string, output?: JobOutput): Job | null {
+  const job = getStorage().updateJob(id, {
+    status: 'pending',
+    progress: 0,
+    message,
+    output,
+    attempts: 0,
+    updatedAt: new Date().toISOString(),
+    completedAt: undefined,
+  });
+  if (job) {
+    jobEvents.emit(id, job);
   }
+  return job;
+}
 
-  return removedCount;
+export function cleanupOldJobs(maxAge: number = 7 * 24 * 60 * 60 * 1000): number {
+  const cutoff = new Date(Date.now() - maxAge).toISOString();
+  return getStorage().deleteFinishedJobsBefore(cutoff);
 }
@@ -0,0 +1,88 @@
+import { readFileSync, existsSync, renameSync } from 'fs';
+import { join } from 'path';
+import type { AssetsRegistry } from './assets';
+import type { Job, JobsRegistry } from './jobs';
+import type { SqliteBackend } from './sqlite';
+
+function readRegistry<T>(filePath: string): T | null {
+  if (!existsSync(filePath)) {
+    return null;
+  }
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    console.warn(`Failed to read ${filePath}, skipping import:`, error);
+    return null;
+  }
+}
+
+/**
+ * Parents must exist before their children are inserted. Jobs whose parent
+ * is missing from the registry are imported without the link.
+ */
+function orderJobsForInsert(jobs: Job[]): Job[] {
+  const ids = new Set(jobs.map((j) => j.id));
+  const ordered: Job[] = [];
+  const inserted = new Set<string>();
+  let remaining = jobs;
+
+  while (remaining.length > 0) {
+    const next = remaining.filter(
+      (j) => !j.parentJobId || !ids.has(j.parentJobId) || inserted.has(j.parentJobId)
+    );
+    if (next.length === 0) {
+      // Cyclic references: import the rest unlinked
+      ordered.push(...remaining.map((j) => ({ ...j, parentJobId: undefined })));
+      break;
+    }
+    next.forEach((j) => {
+      ordered.push(j.parentJobId && !ids.has(j.parentJobId) ? { ...j, parentJobId: undefined } : j);
+      inserted.add(j.id);
+    });
+    remaining = remaining.filter((j) => !inserted.has(j.id));
+  }
+
+  return ordered;
+}
+
+/**
+ * One-shot import of the legacy assets.json / jobs.json registries.
+ * Each file is renamed to *.migrated once its contents are committed.
+ */
+export function importJsonRegistries(backend: SqliteBackend, dataDir: string): void {
+  const assetsPath = join(dataDir, 'assets.json');
+  const assetsRegistry = readRegistry<AssetsRegistry>(assetsPath);
+
+  if (assetsRegistry) {
+    const assets = assetsRegistry.assets ?? [];
+    backend.transaction(() => {
+      for (const asset of assets) {
+        if (!backend.getAsset(asset.id)) {
+          backend.insertAsset({
+            ...asset,
+            sourceAssetIds: asset.sourceAssetIds ?? (asset.sourceAssetId ? [asset.sourceAssetId] : []),
+            metadata: asset.metadata ?? {},
+          });
+        }
+      }
+    });
+    renameSync(assetsPath, `${assetsPath}.migrated`);
+    console.log(`Imported ${assets.length} assets from assets.json`);
+  }
+
+  const jobsPath = join(dataDir, 'jobs.json');
+  const jobsRegistry = readRegistry<JobsRegistry>(jobsPath);
+
+  if (jobsRegistry) {
+    const jobs = orderJobsForInsert(jobsRegistry.jobs ?? []);
+    backend.transaction(() => {
+      for (const job of jobs) {
+        if (!backend.getJob(job.id)) {
+          backend.insertJob(job);
+        }
+      }
+    });
+    renameSync(jobsPath, `${jobsPath}.migrated`);
+    console.log(`Imported ${jobs.length} jobs from jobs.json`);
+  }
+}
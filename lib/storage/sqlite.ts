@@ -0,0 +1,475 @@
+import Database from 'better-sqlite3';
+import { existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { getConfig } from '../config';
+import type { Asset, AssetMetadata, AssetType } from './assets';
+import type { Job, JobType, JobStatus } from './jobs';
+import type { CacheEntry, CacheOperation } from './cache';
+import type { AssetFilter, JobFilter, JobUpdates, StorageBackend } from './backend';
+import { importJsonRegistries } from './migrate';
+
+interface AssetRow {
+  id: string;
+  type: string;
+  path: string;
+  prompt: string | null;
+  source_asset_id: string | null;
+  created_at: string;
+  metadata: string;
+  provenance: string | null;
+  source_asset_ids: string | null;
+}
+
+interface JobRow {
+  id: string;
+  type: string;
+  status: string;
+  input: string;
+  output: string | null;
+  progress: number;
+  message: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  parent_job_id: string | null;
+  attempts: number;
+  child_job_ids: string | null;
+}
+
+interface CacheRow {
+  key: string;
+  operation: string;
+  provider: string;
+  asset_id: string;
+  job_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Schema migrations, applied in order. The index of the last applied
+ * migration is tracked in PRAGMA user_version.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE assets (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    path TEXT NOT NULL,
+    prompt TEXT,
+    source_asset_id TEXT,
+    created_at TEXT NOT NULL,
+    metadata TEXT NOT NULL DEFAULT '{}'
+  );
+  CREATE INDEX idx_assets_type ON assets (type);
+  CREATE INDEX idx_assets_created_at ON assets (created_at);
+  CREATE INDEX idx_assets_source_asset_id ON assets (source_asset_id);
+
+  CREATE TABLE jobs (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    status TEXT NOT NULL,
+    input TEXT NOT NULL DEFAULT '{}',
+    output TEXT,
+    progress REAL NOT NULL DEFAULT 0,
+    message TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    completed_at TEXT,
+    parent_job_id TEXT
+  );
+  CREATE INDEX idx_jobs_status ON jobs (status);
+  CREATE INDEX idx_jobs_type ON jobs (type);
+  CREATE INDEX idx_jobs_created_at ON jobs (created_at);
+  CREATE INDEX idx_jobs_parent_job_id ON jobs (parent_job_id);
+  `,
+  `
+  ALTER TABLE jobs ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+  `,
+  `
+  CREATE TABLE result_cache (
+    key TEXT PRIMARY KEY,
+    operation TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    asset_id TEXT NOT NULL,
+    job_id TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_result_cache_asset_id ON result_cache (asset_id);
+  `,
+  `
+  CREATE INDEX idx_assets_sha256 ON assets (json_extract(metadata, '$.sha256'));
+  `,
+  `
+  CREATE TABLE asset_sources (
+    asset_id TEXT NOT NULL,
+    source_asset_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (asset_id, position)
+  );
+  CREATE INDEX idx_asset_sources_source_asset_id ON asset_sources (source_asset_id);
+  INSERT INTO asset_sources (asset_id, source_asset_id, position)
+    SELECT id, source_asset_id, 0 FROM assets WHERE source_asset_id IS NOT NULL;
+  `,
+  `
+  ALTER TABLE assets ADD COLUMN provenance TEXT;
+  `,
+];
+
+// source_asset_id keeps the first source so single-source queries stay simple
+const ASSET_COLUMNS = `
+  assets.*,
+  (SELECT json_group_array(source.source_asset_id) FROM (
+    SELECT source_asset_id FROM asset_sources AS s WHERE s.asset_id = assets.id ORDER BY s.position
+  ) AS source) AS source_asset_ids
+`;
+
+// Child ids are derived from parent_job_id so the linkage cannot drift
+const JOB_COLUMNS = `
+  jobs.*,
+  (SELECT json_group_array(child.id) FROM (
+    SELECT id FROM jobs AS c WHERE c.parent_job_id = jobs.id ORDER BY c.rowid
+  ) AS child) AS child_job_ids
+`;
+
+function rowToAsset(row: AssetRow): Asset {
+  return {
+    id: row.id,
+    type: row.type as AssetType,
+    path: row.path,
+    prompt: row.prompt ?? undefined,
+    sourceAssetId: row.source_asset_id ?? undefined,
+    sourceAssetIds: row.source_asset_ids ? JSON.parse(row.source_asset_ids) : [],
+    createdAt: row.created_at,
+    metadata: JSON.parse(row.metadata),
+    provenance: row.provenance ? JSON.parse(row.provenance) : undefined,
+  };
+}
+
+function rowToJob(row: JobRow): Job {
+  const childJobIds: string[] = row.child_job_ids ? JSON.parse(row.child_job_ids) : [];
+  return {
+    id: row.id,
+    type: row.type as JobType,
+    status: row.status as JobStatus,
+    input: JSON.parse(row.input),
+    output: row.output ? JSON.parse(row.output) : undefined,
+    progress: row.progress,
+    message: row.message ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at ?? undefined,
+    parentJobId: row.parent_job_id ?? undefined,
+    childJobIds: childJobIds.length > 0 ? childJobIds : undefined,
+    attempts: row.attempts,
+  };
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+export class SqliteBackend implements StorageBackend {
+  private db: Database.Database;
+
+  constructor() {
+    const config = getConfig();
+    const dataDir = join(process.cwd(), config.storage.dataDir);
+    if (!existsSync(dataDir)) {
+      mkdirSync(dataDir, { recursive: true });
+    }
+
+    this.db = new Database(join(dataDir, config.storage.databaseFile));
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+
+    this.migrate();
+    importJsonRegistries(this, dataDir);
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[i]);
+        this.db.pragma(`user_version = ${i + 1}`);
+      })();
+    }
+  }
+
+  /**
+   * Run a function inside a single SQLite transaction
+   */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  insertAsset(asset: Asset): void {
+    this.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO assets (id, type, path, prompt, source_asset_id, created_at, metadata, provenance)
+           VALUES (@id, @type, @path, @prompt, @sourceAssetId, @createdAt, @metadata, @provenance)`
+        )
+        .run({
+          id: asset.id,
+          type: asset.type,
+          path: asset.path,
+          prompt: asset.prompt ?? null,
+          sourceAssetId: asset.sourceAssetIds[0] ?? null,
+          createdAt: asset.createdAt,
+          metadata: JSON.stringify(asset.metadata ?? {}),
+          provenance: asset.provenance ? JSON.stringify(asset.provenance) : null,
+        });
+
+      const insertSource = this.db.prepare(
+        `INSERT INTO asset_sources (asset_id, source_asset_id, position)
+         VALUES (@assetId, @sourceAssetId, @position)`
+      );
+      asset.sourceAssetIds.forEach((sourceAssetId, position) => {
+        insertSource.run({ assetId: asset.id, sourceAssetId, position });
+      });
+    });
+  }
+
+  getAsset(id: string): Asset | null {
+    const row = this.db.prepare(`SELECT ${ASSET_COLUMNS} FROM assets WHERE id = ?`).get(id) as
+      | AssetRow
+      | undefined;
+    return row ? rowToAsset(row) : null;
+  }
+
+  listAssets(filter?: AssetFilter): Asset[] {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (filter?.type) {
+      conditions.push('type = @type');
+      params.type = filter.type;
+    }
+
+    if (filter?.search) {
+      conditions.push(`(prompt LIKE @search ESCAPE '\\' OR path LIKE @search ESCAPE '\\')`);
+      params.search = `%${escapeLike(filter.search)}%`;
+    }
+
+    if (filter?.sha256) {
+      conditions.push(`json_extract(metadata, '$.sha256') = @sha256`);
+      params.sha256 = filter.sha256;
+    }
+
+    if (filter?.duplicates) {
+      conditions.push(`json_extract(metadata, '$.sha256') IN (
+        SELECT json_extract(metadata, '$.sha256') FROM assets
+        WHERE json_extract(metadata, '$.sha256') IS NOT NULL
+        GROUP BY json_extract(metadata, '$.sha256') HAVING COUNT(*) > 1
+      )`);
+    }
+
+    if (filter?.sourceAssetId) {
+      conditions.push('id IN (SELECT asset_id FROM asset_sources WHERE source_asset_id = @sourceAssetId)');
+      params.sourceAssetId = filter.sourceAssetId;
+    }
+
+    if (filter?.path) {
+      conditions.push('path = @path');
+      params.path = filter.path;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT ${ASSET_COLUMNS} FROM assets ${where} ORDER BY created_at DESC`)
+      .all(params) as AssetRow[];
+
+    return rows.map(rowToAsset);
+  }
+
+  updateAssetMetadata(id: string, metadata: AssetMetadata): Asset | null {
+    const changes = this.db
+      .prepare('UPDATE assets SET metadata = ? WHERE id = ?')
+      .run(JSON.stringify(metadata), id).changes;
+    return changes > 0 ? this.getAsset(id) : null;
+  }
+
+  deleteAsset(id: string): boolean {
+    return this.transaction(() => {
+      this.db.prepare('DELETE FROM result_cache WHERE asset_id = ?').run(id);
+      this.db.prepare('DELETE FROM asset_sources WHERE asset_id = ?').run(id);
+      return this.db.prepare('DELETE FROM assets WHERE id = ?').run(id).changes > 0;
+    });
+  }
+
+  insertJob(job: Job): Job {
+    return this.transaction(() => {
+      if (job.parentJobId) {
+        const parent = this.db.prepare('SELECT id FROM jobs WHERE id = ?').get(job.parentJobId);
+        if (!parent) {
+          throw new Error(`Parent job not found: ${job.parentJobId}`);
+        }
+      }
+
+      this.db
+        .prepare(
+          `INSERT INTO jobs (id, type, status, input, output, progress, message,
+             created_at, updated_at, completed_at, parent_job_id, attempts)
+           VALUES (@id, @type, @status, @input, @output, @progress, @message,
+             @createdAt, @updatedAt, @completedAt, @parentJobId, @attempts)`
+        )
+        .run({
+          id: job.id,
+          type: job.type,
+          status: job.status,
+          input: JSON.stringify(job.input ?? {}),
+          output: job.output ? JSON.stringify(job.output) : null,
+          progress: job.progress,
+          message: job.message ?? null,
+          createdAt: job.createdAt,
+          updatedAt: job.updatedAt,
+          completedAt: job.completedAt ?? null,
+          parentJobId: job.parentJobId ?? null,
+          attempts: job.attempts ?? 0,
+        });
+
+      return this.getJob(job.id)!;
+    });
+  }
+
+  updateJob(id: string, updates: JobUpdates): Job | null {
+    return this.transaction(() => {
+      const job = this.getJob(id);
+      if (!job) {
+        return null;
+      }
+
+      const updated: Job = { ...job, ...updates };
+
+      this.db
+        .prepare(
+          `UPDATE jobs SET status = @status, output = @output, progress = @progress,
+             message = @message, updated_at = @updatedAt, completed_at = @completedAt,
+             attempts = @attempts
+           WHERE id = @id`
+        )
+        .run({
+          id,
+          status: updated.status,
+          output: updated.output ? JSON.stringify(updated.output) : null,
+          progress: updated.progress,
+          message: updated.message ?? null,
+          updatedAt: updated.updatedAt,
+          completedAt: updated.completedAt ?? null,
+          attempts: updated.attempts ?? 0,
+        });
+
+      return updated;
+    });
+  }
+
+  getJob(id: string): Job | null {
+    const row = this.db.prepare(`SELECT ${JOB_COLUMNS} FROM jobs WHERE id = ?`).get(id) as
+      | JobRow
+      | undefined;
+    return row ? rowToJob(row) : null;
+  }
+
+  listJobs(filter?: JobFilter): Job[] {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (filter?.type) {
+      conditions.push('type = @type');
+      params.type = filter.type;
+    }
+
+    if (filter?.status) {
+      conditions.push('status = @status');
+      params.status = filter.status;
+    }
+
+    if (filter?.parentJobId) {
+      conditions.push('parent_job_id = @parentJobId');
+      params.parentJobId = filter.parentJobId;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = filter?.limit ? `LIMIT ${Math.floor(filter.limit)}` : '';
+    const rows = this.db
+      .prepare(`SELECT ${JOB_COLUMNS} FROM jobs ${where} ORDER BY created_at DESC ${limit}`)
+      .all(params) as JobRow[];
+
+    return rows.map(rowToJob);
+  }
+
+  deleteJob(id: string): boolean {
+    return this.transaction(() => {
+      this.db.prepare('DELETE FROM jobs WHERE parent_job_id = ?').run(id);
+      return this.db.prepare('DELETE FROM jobs WHERE id = ?').run(id).changes > 0;
+    });
+  }
+
+  claimNextJob(type: JobType, updatedAt: string): Job | null {
+    return this.transaction(() => {
+      const row = this.db
+        .prepare(
+          `SELECT id FROM jobs WHERE type = ? AND status = 'pending'
+           ORDER BY created_at, rowid LIMIT 1`
+        )
+        .get(type) as { id: string } | undefined;
+
+      if (!row) {
+        return null;
+      }
+
+      this.db
+        .prepare(
+          `UPDATE jobs SET status = 'processing', attempts = attempts + 1, updated_at = ?
+           WHERE id = ?`
+        )
+        .run(updatedAt, row.id);
+
+      return this.getJob(row.id);
+    });
+  }
+
+  deleteFinishedJobsBefore(cutoff: string): number {
+    return this.db
+      .prepare(
+        `DELETE FROM jobs WHERE status NOT IN ('pending', 'processing') AND created_at <= ?`
+      )
+      .run(cutoff).changes;
+  }
+
+  getCacheEntry(key: string): CacheEntry | null {
+    const row = this.db.prepare('SELECT * FROM result_cache WHERE key = ?').get(key) as
+      | CacheRow
+      | undefined;
+    if (!row) {
+      return null;
+    }
+
+    return {
+      key: row.key,
+      operation: row.operation as CacheOperation,
+      provider: row.provider,
+      assetId: row.asset_id,
+      jobId: row.job_id ?? undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  putCacheEntry(entry: CacheEntry): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO result_cache (key, operation, provider, asset_id, job_id, created_at)
+         VALUES (@key, @operation, @provider, @assetId, @jobId, @createdAt)`
+      )
+      .run({
+        key: entry.key,
+        operation: entry.operation,
+        provider: entry.provider,
+        assetId: entry.assetId,
+        jobId: entry.jobId ?? null,
+        createdAt: entry.createdAt,
+      });
+  }
+}
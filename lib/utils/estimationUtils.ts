@@ -3,6 +3,30 @@
  */
 export type CompressionLevel = 'full' | 'compressed' | 'ultra';
 
+/**
+ * Texture encodings for exported models. 'original' keeps each texture's
+ * own format and only re-encodes it when it is resized.
+ */
+export type TextureFormat = 'original' | 'webp' | 'jpeg' | 'ktx2';
+
+/** Texture roles that get their own quality setting */
+export type TextureMapType = 'baseColor' | 'normal' | 'metallicRoughness';
+
+export interface TextureSettings {
+  maxSize: number | null; // Longest side in pixels, null keeps the source size
+  format: TextureFormat;
+  quality: Record<TextureMapType, number>; // 1-100 per map type
+}
+
+export const TEXTURE_FORMATS: Record<TextureFormat, string> = {
+  original: 'Original',
+  webp: 'WebP',
+  jpeg: 'JPEG',
+  ktx2: 'KTX2 (Basis)',
+};
+
+export const TEXTURE_SIZES = [4096, 2048, 1024, 512];
+
 export interface CompressionTier {
   level: CompressionLevel;
   label: string;
@@ -10,6 +34,7 @@ export interface CompressionTier {
   estimatedRatio: number; // Multiplier for estimated final size
   badge?: string;
   premiumRequired: boolean;
+  textures: TextureSettings; // Defaults for the texture options in the download menu
 }
 
 export const COMPRESSION_TIERS: Record<CompressionLevel, CompressionTier> = {
@@ -20,6 +45,11 @@ export const COMPRESSION_TIERS: Record<CompressionLevel, CompressionTier> = {
     estimatedRatio: 5.0, // GLB to OBJ is ~5x larger
     badge: undefined,
     premiumRequired: false,
+    textures: {
+      maxSize: null,
+      format: 'original',
+      quality: { baseColor: 90, normal: 95, metallicRoughness: 85 },
+    },
   },
   compressed: {
     level: 'compressed',
@@ -28,6 +58,11 @@ export const COMPRESSION_TIERS: Record<CompressionLevel, CompressionTier> = {
     estimatedRatio: 2.0, // ~40% of full OBJ size
     badge: undefined,
     premiumRequired: false,
+    textures: {
+      maxSize: 2048,
+      format: 'webp',
+      quality: { baseColor: 85, normal: 90, metallicRoughness: 75 },
+    },
   },
   ultra: {
     level: 'ultra',
@@ -36,9 +71,22 @@ export const COMPRESSION_TIERS: Record<CompressionLevel, CompressionTier> = {
     estimatedRatio: 0.75, // ~15% of full OBJ size
     badge: '👑 Premium',
     premiumRequired: true,
+    textures: {
+      maxSize: 1024,
+      format: 'ktx2',
+      quality: { baseColor: 75, normal: 85, metallicRoughness: 60 },
+    },
   },
 };
 
+export function isCompressionLevel(value: unknown): value is CompressionLevel {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(COMPRESSION_TIERS, value);
+}
+
+export function isTextureFormat(value: unknown): value is TextureFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TEXTURE_FORMATS, value);
+}
+
 /**
  * Estimate final OBJ ZIP size based on original GLB size and compression level
  * @param glbSizeBytes - Original GLB file size in bytes
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Document, GLTF, Primitive } from '@gltf-transform/core';
+import { collectWorldPrimitives, listLines, listTriangles } from './geometryUtils';
+import { createTransformedScene } from '../converters/__fixtures__/transformedScene';
+
+function createPrimitive(mode: GLTF.MeshPrimitiveMode, vertexCount: number, indices?: number[]): Primitive {
+  const document = new Document();
+  const primitive = document
+    .createPrimitive()
+    .setMode(mode)
+    .setAttribute(
+      'POSITION',
+      document.createAccessor().setType('VEC3').setArray(new Float32Array(vertexCount * 3))
+    );
+  if (indices) {
+    primitive.setIndices(document.createAccessor().setType('SCALAR').setArray(new Uint16Array(indices)));
+  }
+  return primitive;
+}
+
+describe('listTriangles', () => {
+  it('alternates winding across a triangle strip', () => {
+    expect(listTriangles(createPrimitive(Primitive.Mode.TRIANGLE_STRIP, 5))).toEqual([
+      0, 1, 2, 2, 1, 3, 2, 3, 4,
+    ]);
+  });
+
+  it('fans indexed triangles around the first vertex', () => {
+    expect(listTriangles(createPrimitive(Primitive.Mode.TRIANGLE_FAN, 4, [3, 2, 1, 0]))).toEqual([
+      3, 2, 1, 3, 1, 0,
+    ]);
+  });
+
+  it('returns nothing for lines', () => {
+    expect(listTriangles(createPrimitive(Primitive.Mode.LINES, 4))).toEqual([]);
+  });
+});
+
+describe('listLines', () => {
+  it('closes line loops', () => {
+    expect(listLines(createPrimitive(Primitive.Mode.LINE_LOOP, 3))).toEqual([0, 1, 1, 2, 2, 0]);
+  });
+});
+
+describe('collectWorldPrimitives', () => {
+  it('flips winding under mirroring transforms', () => {
+    const mirrored = collectWorldPrimitives(createTransformedScene()).find(
+      (primitive) => primitive.name === 'Mirrored'
+    );
+    expect(Array.from(mirrored!.indices)).toEqual([0, 2, 1]);
+  });
+
+  it('skips lines and points unless asked for them', () => {
+    const document = new Document();
+    const mesh = document
+      .createMesh('Wire')
+      .addPrimitive(
+        document
+          .createPrimitive()
+          .setMode(Primitive.Mode.LINE_STRIP)
+          .setAttribute('POSITION', document.createAccessor().setType('VEC3').setArray(new Float32Array(9)))
+      );
+    document.createScene().addChild(document.createNode('Wire').setMesh(mesh));
+
+    expect(collectWorldPrimitives(document)).toHaveLength(0);
+    expect(collectWorldPrimitives(document, { includeLinesAndPoints: true })[0].mode).toBe('lines');
+  });
+});
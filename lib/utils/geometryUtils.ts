@@ -0,0 +1,257 @@
+import { Document, Material, Node, Primitive } from '@gltf-transform/core';
+
+export type WorldPrimitiveMode = 'triangles' | 'lines' | 'points';
+
+/**
+ * One primitive with its node transform applied and its strips, fans and
+ * loops expanded, ready for exporters that have no scene graph of their own
+ */
+export interface WorldPrimitive {
+  /** Node name, falling back to the mesh name */
+  name: string;
+  /** Mesh node the primitive belongs to, null outside a scene */
+  node: Node | null;
+  mode: WorldPrimitiveMode;
+  /** World-space positions, xyz per vertex */
+  positions: Float32Array;
+  /** World-space unit normals, xyz per vertex */
+  normals: Float32Array | null;
+  /** glTF texture coordinates (origin top-left), uv per vertex */
+  uvs: Float32Array | null;
+  /** Three vertex indices per triangle, two per line segment or one per point */
+  indices: Uint32Array;
+  material: Material | null;
+}
+
+/**
+ * Triangle vertex indices of a primitive, expanding strips and fans.
+ * Returns an empty list for point and line primitives.
+ */
+export function listTriangles(primitive: Primitive): number[] {
+  const position = primitive.getAttribute('POSITION');
+  if (!position) {
+    return [];
+  }
+
+  const indices = primitive.getIndices();
+  const count = indices ? indices.getCount() : position.getCount();
+  const index = (i: number) => (indices ? indices.getScalar(i) : i);
+  const triangles: number[] = [];
+
+  switch (primitive.getMode()) {
+    case Primitive.Mode.TRIANGLES:
+      for (let i = 0; i + 2 < count; i += 3) {
+        triangles.push(index(i), index(i + 1), index(i + 2));
+      }
+      break;
+    case Primitive.Mode.TRIANGLE_STRIP:
+      for (let i = 0; i + 2 < count; i++) {
+        // Alternate winding so every strip triangle faces the same way
+        if (i % 2 === 0) {
+          triangles.push(index(i), index(i + 1), index(i + 2));
+        } else {
+          triangles.push(index(i + 1), index(i), index(i + 2));
+        }
+      }
+      break;
+    case Primitive.Mode.TRIANGLE_FAN:
+      for (let i = 1; i + 1 < count; i++) {
+        triangles.push(index(0), index(i), index(i + 1));
+      }
+      break;
+  }
+
+  return triangles;
+}
+
+/**
+ * Line segment vertex indices of a primitive, expanding strips and loops.
+ * Returns an empty list for anything but line primitives.
+ */
+export function listLines(primitive: Primitive): number[] {
+  const position = primitive.getAttribute('POSITION');
+  if (!position) {
+    return [];
+  }
+
+  const indices = primitive.getIndices();
+  const count = indices ? indices.getCount() : position.getCount();
+  const index = (i: number) => (indices ? indices.getScalar(i) : i);
+  const lines: number[] = [];
+
+  switch (primitive.getMode()) {
+    case Primitive.Mode.LINES:
+      for (let i = 0; i + 1 < count; i += 2) {
+        lines.push(index(i), index(i + 1));
+      }
+      break;
+    case Primitive.Mode.LINE_STRIP:
+    case Primitive.Mode.LINE_LOOP:
+      for (let i = 0; i + 1 < count; i++) {
+        lines.push(index(i), index(i + 1));
+      }
+      if (primitive.getMode() === Primitive.Mode.LINE_LOOP && count > 2) {
+        lines.push(index(count - 1), index(0));
+      }
+      break;
+  }
+
+  return lines;
+}
+
+function listElements(primitive: Primitive): { mode: WorldPrimitiveMode; indices: number[] } {
+  switch (primitive.getMode()) {
+    case Primitive.Mode.POINTS: {
+      const position = primitive.getAttribute('POSITION');
+      const indices = primitive.getIndices();
+      const count = indices ? indices.getCount() : position?.getCount() ?? 0;
+      const points: number[] = [];
+      for (let i = 0; i < count; i++) {
+        points.push(indices ? indices.getScalar(i) : i);
+      }
+      return { mode: 'points', indices: points };
+    }
+    case Primitive.Mode.LINES:
+    case Primitive.Mode.LINE_STRIP:
+    case Primitive.Mode.LINE_LOOP:
+      return { mode: 'lines', indices: listLines(primitive) };
+    default:
+      return { mode: 'triangles', indices: listTriangles(primitive) };
+  }
+}
+
+const IDENTITY = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+/**
+ * Inverse transpose of the upper 3x3 of a column-major 4x4 matrix, also
+ * column-major, for transforming normals. Returns the determinant too.
+ */
+function normalMatrix(m: ArrayLike<number>): { matrix: number[]; determinant: number } {
+  const [a, b, c] = [m[0], m[1], m[2]];
+  const [d, e, f] = [m[4], m[5], m[6]];
+  const [g, h, i] = [m[8], m[9], m[10]];
+
+  const determinant = a * (e * i - f * h) - d * (b * i - c * h) + g * (b * f - c * e);
+  const inv = determinant === 0 ? 0 : 1 / determinant;
+
+  // Cofactor matrix divided by the determinant is the inverse transpose
+  return {
+    determinant,
+    matrix: [
+      (e * i - f * h) * inv,
+      (g * f - d * i) * inv,
+      (d * h - g * e) * inv,
+      (h * c - b * i) * inv,
+      (a * i - g * c) * inv,
+      (g * b - a * h) * inv,
+      (b * f - e * c) * inv,
+      (d * c - a * f) * inv,
+      (a * e - d * b) * inv,
+    ],
+  };
+}
+
+function toWorldPrimitive(
+  primitive: Primitive,
+  name: string,
+  node: Node | null,
+  world: ArrayLike<number>
+): WorldPrimitive | null {
+  const position = primitive.getAttribute('POSITION');
+  const { mode, indices: elements } = listElements(primitive);
+  if (!position || elements.length === 0) {
+    return null;
+  }
+
+  const count = position.getCount();
+  const positions = new Float32Array(count * 3);
+  const element: number[] = [];
+  for (let v = 0; v < count; v++) {
+    position.getElement(v, element);
+    const [x, y, z] = element;
+    positions[v * 3] = world[0] * x + world[4] * y + world[8] * z + world[12];
+    positions[v * 3 + 1] = world[1] * x + world[5] * y + world[9] * z + world[13];
+    positions[v * 3 + 2] = world[2] * x + world[6] * y + world[10] * z + world[14];
+  }
+
+  const { matrix: n, determinant } = normalMatrix(world);
+
+  let normals: Float32Array | null = null;
+  const normal = primitive.getAttribute('NORMAL');
+  if (normal) {
+    normals = new Float32Array(count * 3);
+    for (let v = 0; v < count; v++) {
+      normal.getElement(v, element);
+      const [x, y, z] = element;
+      const nx = n[0] * x + n[3] * y + n[6] * z;
+      const ny = n[1] * x + n[4] * y + n[7] * z;
+      const nz = n[2] * x + n[5] * y + n[8] * z;
+      const length = Math.hypot(nx, ny, nz) || 1;
+      normals[v * 3] = nx / length;
+      normals[v * 3 + 1] = ny / length;
+      normals[v * 3 + 2] = nz / length;
+    }
+  }
+
+  let uvs: Float32Array | null = null;
+  const texcoord = primitive.getAttribute('TEXCOORD_0');
+  if (texcoord) {
+    uvs = new Float32Array(count * 2);
+    for (let v = 0; v < count; v++) {
+      texcoord.getElement(v, element);
+      uvs[v * 2] = element[0];
+      uvs[v * 2 + 1] = element[1];
+    }
+  }
+
+  const indices = Uint32Array.from(elements);
+  // Mirroring transforms turn triangles inside out
+  if (mode === 'triangles' && determinant < 0) {
+    for (let t = 0; t < indices.length; t += 3) {
+      const swap = indices[t + 1];
+      indices[t + 1] = indices[t + 2];
+      indices[t + 2] = swap;
+    }
+  }
+
+  return { name, node, mode, positions, normals, uvs, indices, material: primitive.getMaterial() };
+}
+
+/**
+ * Walk the default scene and return every triangle primitive in world
+ * space, in scene order. Documents without a scene fall back to their
+ * meshes in local space. Line and point primitives are skipped unless
+ * includeLinesAndPoints is set.
+ */
+export function collectWorldPrimitives(
+  document: Document,
+  { includeLinesAndPoints = false }: { includeLinesAndPoints?: boolean } = {}
+): WorldPrimitive[] {
+  const root = document.getRoot();
+  const scene = root.getDefaultScene() ?? root.listScenes()[0];
+  const result: WorldPrimitive[] = [];
+
+  const addMesh = (node: Node | null, meshName: string, primitives: Primitive[], world: ArrayLike<number>) => {
+    const name = node?.getName() || meshName || `mesh_${result.length}`;
+    primitives.forEach((primitive) => {
+      const converted = toWorldPrimitive(primitive, name, node, world);
+      if (converted && (includeLinesAndPoints || converted.mode === 'triangles')) {
+        result.push(converted);
+      }
+    });
+  };
+
+  if (!scene) {
+    root.listMeshes().forEach((mesh) => addMesh(null, mesh.getName(), mesh.listPrimitives(), IDENTITY));
+    return result;
+  }
+
+  scene.traverse((node) => {
+    const mesh = node.getMesh();
+    if (mesh) {
+      addMesh(node, mesh.getName(), mesh.listPrimitives(), node.getWorldMatrix());
+    }
+  });
+
+  return result;
+}
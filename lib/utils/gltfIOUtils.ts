@@ -0,0 +1,36 @@
+import { NodeIO } from '@gltf-transform/core';
+import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
+import { MeshoptDecoder, MeshoptEncoder } from 'meshoptimizer';
+
+interface DracoModule {
+  createDecoderModule: () => Promise<unknown>;
+  createEncoderModule: () => Promise<unknown>;
+}
+
+/**
+ * NodeIO that can read and write every extension we produce, including
+ * Draco and meshopt compressed geometry
+ */
+export async function createNodeIO(): Promise<NodeIO> {
+  await Promise.all([MeshoptDecoder.ready, MeshoptEncoder.ready]);
+
+  const io = new NodeIO().registerExtensions(ALL_EXTENSIONS).registerDependencies({
+    'meshopt.decoder': MeshoptDecoder,
+    'meshopt.encoder': MeshoptEncoder,
+  });
+
+  // Loaded at runtime so webpack does not try to bundle the WASM build
+  try {
+    const dracoModule = 'draco3dgltf';
+    const imported = await import(/* webpackIgnore: true */ dracoModule);
+    const draco: DracoModule = imported.default ?? imported;
+    io.registerDependencies({
+      'draco3d.decoder': await draco.createDecoderModule(),
+      'draco3d.encoder': await draco.createEncoderModule(),
+    });
+  } catch (error) {
+    console.warn('Draco compression not available, continuing without it');
+  }
+
+  return io;
+}
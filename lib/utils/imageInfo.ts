@@ -0,0 +1,153 @@
+/**
+ * Header-only image inspection. Reads dimensions and pixel layout from the
+ * PNG, JPEG or WebP container without decoding any pixels.
+ */
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+export type ColorSpace = 'rgb' | 'grayscale' | 'indexed' | 'cmyk';
+
+export interface ImageInfo {
+  format: ImageFormat;
+  width: number;
+  height: number;
+  colorSpace: ColorSpace;
+  hasAlpha: boolean;
+}
+
+const PNG_COLOR_SPACES: Record<number, ColorSpace> = {
+  0: 'grayscale',
+  2: 'rgb',
+  3: 'indexed',
+  4: 'grayscale',
+  6: 'rgb',
+};
+
+function readPngInfo(buffer: Buffer): ImageInfo | null {
+  // Signature, then IHDR must be the first chunk
+  if (buffer.length < 33 || buffer.toString('ascii', 12, 16) !== 'IHDR') {
+    return null;
+  }
+
+  const colorType = buffer[25];
+  const colorSpace = PNG_COLOR_SPACES[colorType];
+  if (!colorSpace) {
+    return null;
+  }
+
+  // Palette and opaque colour types can still carry transparency in tRNS
+  let hasAlpha = colorType === 4 || colorType === 6;
+  let offset = 33;
+  while (!hasAlpha && offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    if (type === 'tRNS') {
+      hasAlpha = true;
+    } else if (type === 'IDAT' || type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  return {
+    format: 'png',
+    width: buffer.readUInt32BE(16),
+    height: buffer.readUInt32BE(20),
+    colorSpace,
+    hasAlpha,
+  };
+}
+
+function readJpegInfo(buffer: Buffer): ImageInfo | null {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      return null;
+    }
+    const marker = buffer[offset + 1];
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+
+    // Start-of-frame markers, excluding DHT, JPG and DAC which share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const components = buffer[offset + 9];
+      return {
+        format: 'jpeg',
+        width: buffer.readUInt16BE(offset + 7),
+        height: buffer.readUInt16BE(offset + 5),
+        colorSpace: components === 1 ? 'grayscale' : components === 4 ? 'cmyk' : 'rgb',
+        hasAlpha: false,
+      };
+    }
+
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function readWebpInfo(buffer: Buffer): ImageInfo | null {
+  if (buffer.length < 30) {
+    return null;
+  }
+
+  const chunkType = buffer.toString('ascii', 12, 16);
+  if (chunkType === 'VP8X') {
+    return {
+      format: 'webp',
+      width: buffer.readUIntLE(24, 3) + 1,
+      height: buffer.readUIntLE(27, 3) + 1,
+      colorSpace: 'rgb',
+      hasAlpha: (buffer[20] & 0x10) !== 0,
+    };
+  }
+
+  if (chunkType === 'VP8L' && buffer[20] === 0x2f) {
+    const bits = buffer.readUInt32LE(21);
+    return {
+      format: 'webp',
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+      colorSpace: 'rgb',
+      hasAlpha: ((bits >> 28) & 1) === 1,
+    };
+  }
+
+  // Lossy keyframes start with the 9d 01 2a start code after a 3-byte tag
+  if (chunkType === 'VP8 ' && buffer[23] === 0x9d && buffer[24] === 0x01 && buffer[25] === 0x2a) {
+    return {
+      format: 'webp',
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+      colorSpace: 'rgb',
+      hasAlpha: false,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Inspect an image buffer, or return null if it is not a readable PNG,
+ * JPEG or WebP file
+ */
+export function readImageInfo(buffer: Buffer): ImageInfo | null {
+  if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return readPngInfo(buffer);
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return readJpegInfo(buffer);
+  }
+  if (
+    buffer.length >= 12 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    return readWebpInfo(buffer);
+  }
+  return null;
+}
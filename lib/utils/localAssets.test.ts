@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import * as path from 'path';
+import { getLocalAssetPath, isLocalUrl } from './localAssets';
+
+const assetsDir = path.join(process.cwd(), 'public', 'assets');
+
+describe('isLocalUrl', () => {
+  it('accepts relative paths, localhost and the base URL host', () => {
+    expect(isLocalUrl('/assets/generated/a.png')).toBe(true);
+    expect(isLocalUrl('http://localhost:3000/assets/generated/a.png')).toBe(true);
+    expect(isLocalUrl('http://127.0.0.1:3000/assets/generated/a.png')).toBe(true);
+  });
+
+  it('rejects other hosts, including protocol-relative URLs', () => {
+    expect(isLocalUrl('https://cdn.example.com/assets/generated/a.png')).toBe(false);
+    expect(isLocalUrl('//cdn.example.com/assets/generated/a.png')).toBe(false);
+    expect(isLocalUrl('data:image/png;base64,AAAA')).toBe(false);
+  });
+});
+
+describe('getLocalAssetPath', () => {
+  it('maps local asset URLs into public/assets', () => {
+    expect(getLocalAssetPath('/assets/generated/a.png')).toBe(path.join(assetsDir, 'generated', 'a.png'));
+    expect(getLocalAssetPath('http://localhost:3000/assets/no-bg/b.png')).toBe(
+      path.join(assetsDir, 'no-bg', 'b.png')
+    );
+  });
+
+  it('ignores remote URLs that happen to share the assets path', () => {
+    expect(getLocalAssetPath('https://cdn.example.com/assets/generated/a.png')).toBeNull();
+  });
+
+  it('refuses paths that escape the assets directory', () => {
+    expect(getLocalAssetPath('/assets/../../etc/passwd')).toBeNull();
+    expect(getLocalAssetPath('/assets/%2e%2e/secret')).toBeNull();
+    expect(getLocalAssetPath('/models/a.glb')).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+import { readFileSync, existsSync } from 'fs';
+import { join, resolve, sep } from 'path';
+import { ServiceError } from '../services/errors';
+import { getBaseUrl } from '../utils';
+
+/**
+ * Whether a URL points at this app: a relative path, localhost or the
+ * configured base URL. Only these may be read straight from disk, and Fal
+ * cannot fetch them so they have to be uploaded first.
+ */
+export function isLocalUrl(url: string): boolean {
+  if (url.startsWith('/')) {
+    // Protocol-relative URLs name another host
+    return !url.startsWith('//');
+  }
+  try {
+    const { host, hostname } = new URL(url);
+    return hostname === 'localhost' || hostname === '127.0.0.1' || host === new URL(getBaseUrl()).host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The file under public/assets a URL is served from, or null when it is
+ * not a local asset URL or tries to escape the assets directory
+ */
+export function getLocalAssetPath(url: string): string | null {
+  if (!isLocalUrl(url)) {
+    return null;
+  }
+  try {
+    const pathname = decodeURIComponent(url.startsWith('/') ? url : new URL(url).pathname);
+    if (!pathname.startsWith('/assets/')) {
+      return null;
+    }
+    const assetsDir = join(process.cwd(), 'public', 'assets');
+    const filePath = resolve(join(process.cwd(), 'public', pathname));
+    return filePath.startsWith(assetsDir + sep) ? filePath : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read an image from disk when it is one of our assets, otherwise fetch it
+ */
+export async function loadImageBytes(url: string, signal?: AbortSignal): Promise<Buffer> {
+  const localPath = getLocalAssetPath(url);
+  if (localPath && existsSync(localPath)) {
+    return readFileSync(localPath);
+  }
+
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw ServiceError.fromResponse(response, `Failed to fetch image: ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
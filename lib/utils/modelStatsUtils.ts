@@ -0,0 +1,135 @@
+import { Document, getBounds } from '@gltf-transform/core';
+import * as fs from 'fs/promises';
+import { createNodeIO } from './gltfIOUtils';
+import { listTriangles } from './geometryUtils';
+
+export interface ModelTextureStats {
+  name?: string;
+  mimeType: string;
+  width?: number;
+  height?: number;
+}
+
+export interface ModelStats {
+  vertexCount: number;
+  triangleCount: number;
+  meshCount: number;
+  primitiveCount: number;
+  materialCount: number;
+  textures: ModelTextureStats[];
+  /** Scene bounds in model units, null for models without a scene */
+  bounds: { min: number[]; max: number[]; size: number[] } | null;
+  /** Every triangle edge is shared by exactly two triangles */
+  watertight: boolean;
+  computedAt: string;
+}
+
+// Positions closer than this are treated as the same vertex for edge matching
+const WELD_PRECISION = 1e5;
+
+/**
+ * Check each mesh for open edges. Vertices are welded by position first,
+ * since exporters split vertices along UV and normal seams.
+ */
+function isWatertight(document: Document): boolean {
+  const meshes = document.getRoot().listMeshes();
+  let hasTriangles = false;
+
+  for (let m = 0; m < meshes.length; m++) {
+    const welded = new Map<string, number>();
+    const edges = new Map<string, number>();
+    const primitives = meshes[m].listPrimitives();
+
+    for (let p = 0; p < primitives.length; p++) {
+      const position = primitives[p].getAttribute('POSITION');
+      const triangles = listTriangles(primitives[p]);
+      if (!position || triangles.length === 0) continue;
+      hasTriangles = true;
+
+      const vertexIds: number[] = [];
+      const element: number[] = [];
+      for (let i = 0; i < position.getCount(); i++) {
+        position.getElement(i, element);
+        const key = element.map((value) => Math.round(value * WELD_PRECISION)).join(',');
+        let id = welded.get(key);
+        if (id === undefined) {
+          id = welded.size;
+          welded.set(key, id);
+        }
+        vertexIds.push(id);
+      }
+
+      for (let t = 0; t < triangles.length; t += 3) {
+        for (let e = 0; e < 3; e++) {
+          const a = vertexIds[triangles[t + e]];
+          const b = vertexIds[triangles[t + ((e + 1) % 3)]];
+          if (a === b) continue;
+          const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+          edges.set(key, (edges.get(key) ?? 0) + 1);
+        }
+      }
+    }
+
+    let closed = true;
+    edges.forEach((count) => {
+      if (count !== 2) closed = false;
+    });
+    if (!closed) {
+      return false;
+    }
+  }
+
+  return hasTriangles;
+}
+
+/**
+ * Inspect a GLB file: geometry and material counts, texture sizes, scene
+ * bounds and whether the surface is closed
+ */
+export async function computeModelStats(glbPath: string): Promise<ModelStats> {
+  const io = await createNodeIO();
+  const document = await io.readBinary(new Uint8Array(await fs.readFile(glbPath)));
+  const root = document.getRoot();
+
+  let vertexCount = 0;
+  let triangleCount = 0;
+  let primitiveCount = 0;
+  root.listMeshes().forEach((mesh) => {
+    mesh.listPrimitives().forEach((primitive) => {
+      primitiveCount++;
+      vertexCount += primitive.getAttribute('POSITION')?.getCount() ?? 0;
+      triangleCount += listTriangles(primitive).length / 3;
+    });
+  });
+
+  const textures = root.listTextures().map((texture) => {
+    const size = texture.getSize();
+    return {
+      name: texture.getName() || texture.getURI() || undefined,
+      mimeType: texture.getMimeType(),
+      width: size?.[0],
+      height: size?.[1],
+    };
+  });
+
+  const scene = root.getDefaultScene() ?? root.listScenes()[0];
+  let bounds: ModelStats['bounds'] = null;
+  if (scene) {
+    const { min, max } = getBounds(scene);
+    if (min.every(Number.isFinite) && max.every(Number.isFinite)) {
+      bounds = { min, max, size: max.map((value, i) => value - min[i]) };
+    }
+  }
+
+  return {
+    vertexCount,
+    triangleCount,
+    meshCount: root.listMeshes().length,
+    primitiveCount,
+    materialCount: root.listMaterials().length,
+    textures,
+    bounds,
+    watertight: isWatertight(document),
+    computedAt: new Date().toISOString(),
+  };
+}
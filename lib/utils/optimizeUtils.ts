@@ -0,0 +1,123 @@
+import { Logger, Transform } from '@gltf-transform/core';
+import {
+  dedup,
+  draco,
+  meshopt,
+  prune,
+  simplify,
+  textureResize,
+  weld,
+} from '@gltf-transform/functions';
+import { MeshoptEncoder, MeshoptSimplifier } from 'meshoptimizer';
+import * as fs from 'fs/promises';
+import { createNodeIO } from './gltfIOUtils';
+
+export type OptimizePreset = 'web' | 'mobile' | 'archival';
+
+export interface OptimizePresetConfig {
+  label: string;
+  description: string;
+  /** Merge vertices closer than this; 0 only merges exact duplicates */
+  weldTolerance: number;
+  /** Fraction of triangles to keep, or null to keep the full mesh */
+  simplifyRatio: number | null;
+  /** Maximum simplification error, relative to the mesh radius */
+  simplifyError: number;
+  /** Largest texture dimension, or null to keep texture sizes */
+  maxTextureSize: number | null;
+  /** Geometry codec; both quantize vertex attributes before encoding */
+  compression: 'draco' | 'meshopt' | 'none';
+}
+
+export const OPTIMIZE_PRESETS: Record<OptimizePreset, OptimizePresetConfig> = {
+  web: {
+    label: 'Web',
+    description: 'Half the triangles, 2K textures and meshopt compression',
+    weldTolerance: 0.0001,
+    simplifyRatio: 0.5,
+    simplifyError: 0.001,
+    maxTextureSize: 2048,
+    compression: 'meshopt',
+  },
+  mobile: {
+    label: 'Mobile',
+    description: 'Aggressive decimation, 1K textures and Draco compression',
+    weldTolerance: 0.001,
+    simplifyRatio: 0.15,
+    simplifyError: 0.01,
+    maxTextureSize: 1024,
+    compression: 'draco',
+  },
+  archival: {
+    label: 'Archival',
+    description: 'Lossless cleanup only: duplicate data and unused resources removed',
+    weldTolerance: 0,
+    simplifyRatio: null,
+    simplifyError: 0,
+    maxTextureSize: null,
+    compression: 'none',
+  },
+};
+
+export function isOptimizePreset(value: unknown): value is OptimizePreset {
+  return typeof value === 'string' && value in OPTIMIZE_PRESETS;
+}
+
+/**
+ * Run the passes for a preset over a GLB file and return the optimized GLB.
+ * Progress is reported per pass, from 0 to 100.
+ */
+export async function optimizeModel(
+  glbPath: string,
+  preset: OptimizePreset,
+  onProgress?: (stage: string, progress: number) => void
+): Promise<Uint8Array> {
+  const config = OPTIMIZE_PRESETS[preset];
+
+  onProgress?.('Reading model', 5);
+  const io = await createNodeIO();
+  const document = await io.readBinary(new Uint8Array(await fs.readFile(glbPath)));
+  document.setLogger(new Logger(Logger.Verbosity.WARN));
+
+  const passes: { stage: string; transform: Transform }[] = [
+    { stage: 'Removing duplicate data', transform: dedup() },
+    { stage: 'Pruning unused resources', transform: prune() },
+    { stage: 'Welding vertices', transform: weld({ tolerance: config.weldTolerance }) },
+  ];
+
+  if (config.simplifyRatio !== null) {
+    await MeshoptSimplifier.ready;
+    passes.push({
+      stage: 'Simplifying mesh',
+      transform: simplify({
+        simplifier: MeshoptSimplifier,
+        ratio: config.simplifyRatio,
+        error: config.simplifyError,
+      }),
+    });
+  }
+
+  if (config.maxTextureSize !== null) {
+    passes.push({
+      stage: 'Resizing textures',
+      transform: textureResize({ size: [config.maxTextureSize, config.maxTextureSize] }),
+    });
+  }
+
+  if (config.compression === 'meshopt') {
+    passes.push({
+      stage: 'Applying meshopt compression',
+      transform: meshopt({ encoder: MeshoptEncoder, level: 'medium' }),
+    });
+  } else if (config.compression === 'draco') {
+    passes.push({ stage: 'Applying Draco compression', transform: draco() });
+  }
+
+  for (let i = 0; i < passes.length; i++) {
+    onProgress?.(passes[i].stage, 10 + Math.round((i / passes.length) * 80));
+    await document.transform(passes[i].transform);
+  }
+
+  onProgress?.('Writing model', 95);
+  return io.writeBinary(document);
+}
@@ -0,0 +1,257 @@
+import { Document, Texture } from '@gltf-transform/core';
+import { EXTTextureWebP, KHRTextureBasisu } from '@gltf-transform/extensions';
+import jpeg from 'jpeg-js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { RgbaImage, decodePng, encodePng } from './pngUtils';
+import { TextureFormat, TextureMapType, TextureSettings } from './estimationUtils';
+
+interface TextureUsage {
+  map: TextureMapType;
+  srgb: boolean;
+}
+
+interface WebPEncoder {
+  init: (module: WebAssembly.Module) => Promise<unknown>;
+  default: (
+    image: { data: Uint8ClampedArray; width: number; height: number },
+    options: { quality: number; lossless: number }
+  ) => Promise<ArrayBuffer>;
+}
+
+interface KTX2Encoder {
+  encodeToKTX2: (source: Uint8Array, options: Record<string, unknown>) => Promise<Uint8Array>;
+}
+
+let webpEncoder: Promise<WebPEncoder> | null = null;
+
+/**
+ * The WebP and Basis encoders are WASM ES modules, loaded at runtime so
+ * webpack does not try to bundle them
+ */
+function loadWebPEncoder(): Promise<WebPEncoder> {
+  if (!webpEncoder) {
+    webpEncoder = (async () => {
+      const moduleName = '@jsquash/webp/encode.js';
+      const encoder: WebPEncoder = await import(/* webpackIgnore: true */ moduleName);
+      // Every Node release Next supports has WASM SIMD, which the encoder picks
+      const wasmPath = path.join(process.cwd(), 'node_modules', '@jsquash', 'webp', 'codec', 'enc', 'webp_enc_simd.wasm');
+      await encoder.init(await WebAssembly.compile(await fs.readFile(wasmPath)));
+      return encoder;
+    })();
+    webpEncoder.catch(() => {
+      webpEncoder = null;
+    });
+  }
+  return webpEncoder;
+}
+
+async function loadKTX2Encoder(): Promise<KTX2Encoder> {
+  const moduleName = 'ktx2-encoder';
+  return import(/* webpackIgnore: true */ moduleName);
+}
+
+function decodeImage(data: Uint8Array, mimeType: string): RgbaImage | null {
+  const buffer = Buffer.from(data);
+  try {
+    if (mimeType === 'image/png') {
+      return decodePng(buffer);
+    }
+    if (mimeType === 'image/jpeg') {
+      const decoded = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true });
+      return { width: decoded.width, height: decoded.height, data: Buffer.from(decoded.data) };
+    }
+  } catch (error) {
+    console.warn('Texture decode failed:', error);
+  }
+  return null;
+}
+
+/**
+ * Downscale with a box filter, averaging every source pixel that falls in
+ * each destination pixel
+ */
+export function resizeImage(image: RgbaImage, width: number, height: number): RgbaImage {
+  const data = Buffer.alloc(width * height * 4);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * scaleY);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * scaleX);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX));
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          r += image.data[i];
+          g += image.data[i + 1];
+          b += image.data[i + 2];
+          a += image.data[i + 3];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (y * width + x) * 4;
+      data[o] = Math.round(r / count);
+      data[o + 1] = Math.round(g / count);
+      data[o + 2] = Math.round(b / count);
+      data[o + 3] = Math.round(a / count);
+    }
+  }
+
+  return { width, height, data };
+}
+
+function hasTransparency(image: RgbaImage): boolean {
+  for (let i = 3; i < image.data.length; i += 4) {
+    if (image.data[i] < 255) return true;
+  }
+  return false;
+}
+
+/**
+ * What each texture is used for. A texture shared between slots takes the
+ * most demanding role: normal, then colour, then data.
+ */
+function listTextureUsage(document: Document): Map<Texture, TextureUsage> {
+  const usage = new Map<Texture, TextureUsage>();
+  const priority: Record<TextureMapType, number> = { normal: 2, baseColor: 1, metallicRoughness: 0 };
+
+  const use = (texture: Texture | null, map: TextureMapType, srgb: boolean) => {
+    if (!texture) return;
+    const current = usage.get(texture);
+    if (!current || priority[map] > priority[current.map]) {
+      usage.set(texture, { map, srgb });
+    }
+  };
+
+  document.getRoot().listMaterials().forEach((material) => {
+    use(material.getBaseColorTexture(), 'baseColor', true);
+    use(material.getEmissiveTexture(), 'baseColor', true);
+    use(material.getNormalTexture(), 'normal', false);
+    use(material.getMetallicRoughnessTexture(), 'metallicRoughness', false);
+    use(material.getOcclusionTexture(), 'metallicRoughness', false);
+  });
+
+  return usage;
+}
+
+async function encodeTexture(
+  image: RgbaImage,
+  format: Exclude<TextureFormat, 'original'>,
+  quality: number,
+  usage: TextureUsage
+): Promise<{ data: Uint8Array; mimeType: string }> {
+  switch (format) {
+    case 'jpeg': {
+      const encoded = jpeg.encode({ data: image.data, width: image.width, height: image.height }, quality);
+      return { data: new Uint8Array(encoded.data), mimeType: 'image/jpeg' };
+    }
+    case 'webp': {
+      const encoder = await loadWebPEncoder();
+      const encoded = await encoder.default(
+        { data: new Uint8ClampedArray(image.data), width: image.width, height: image.height },
+        { quality, lossless: quality >= 100 ? 1 : 0 }
+      );
+      return { data: new Uint8Array(encoded), mimeType: 'image/webp' };
+    }
+    case 'ktx2': {
+      const { encodeToKTX2 } = await loadKTX2Encoder();
+      const isNormal = usage.map === 'normal';
+      // UASTC keeps normal maps accurate; ETC1S is far smaller for everything else
+      const data = await encodeToKTX2(new Uint8Array(0), {
+        isUASTC: isNormal,
+        qualityLevel: Math.round(1 + (quality / 100) * 254),
+        uastcLDRQualityLevel: Math.round((quality / 100) * 3),
+        needSupercompression: isNormal,
+        isNormalMap: isNormal,
+        isPerceptual: usage.srgb,
+        isSetKTX2SRGBTransferFunc: usage.srgb,
+        generateMipmap: true,
+        enableDebug: false,
+        imageDecoder: async () => ({ width: image.width, height: image.height, data: new Uint8Array(image.data) }),
+      });
+      return { data, mimeType: 'image/ktx2' };
+    }
+  }
+}
+
+/**
+ * Resize and re-encode every PNG and JPEG texture in a document. Textures
+ * with transparency stay PNG when JPEG is requested, and textures that
+ * can't be decoded are left as they are. Registers EXT_texture_webp or
+ * KHR_texture_basisu when the document ends up needing them.
+ */
+export async function processTextures(
+  document: Document,
+  settings: TextureSettings,
+  onProgress?: (stage: string, progress: number) => void
+): Promise<Document> {
+  const usage = listTextureUsage(document);
+  const textures = document.getRoot().listTextures();
+
+  for (let index = 0; index < textures.length; index++) {
+    const texture = textures[index];
+    const source = texture.getImage();
+    const sourceMimeType = texture.getMimeType();
+    if (!source) continue;
+
+    onProgress?.(`Processing texture ${index + 1} of ${textures.length}`, Math.round((index / textures.length) * 100));
+
+    let image = decodeImage(source, sourceMimeType);
+    if (!image) continue;
+
+    let resized = false;
+    const longest = Math.max(image.width, image.height);
+    if (settings.maxSize && longest > settings.maxSize) {
+      const scale = settings.maxSize / longest;
+      image = resizeImage(
+        image,
+        Math.max(1, Math.round(image.width * scale)),
+        Math.max(1, Math.round(image.height * scale))
+      );
+      resized = true;
+    }
+
+    const textureUsage = usage.get(texture) ?? { map: 'metallicRoughness', srgb: false };
+    const quality = Math.min(100, Math.max(1, settings.quality[textureUsage.map]));
+
+    let format = settings.format;
+    if (format === 'jpeg' && hasTransparency(image)) {
+      format = 'original';
+    }
+
+    if (format === 'original') {
+      if (!resized) continue;
+      if (sourceMimeType === 'image/jpeg') {
+        const encoded = await encodeTexture(image, 'jpeg', quality, textureUsage);
+        texture.setImage(encoded.data);
+      } else {
+        texture.setImage(new Uint8Array(encodePng(image))).setMimeType('image/png');
+      }
+    } else {
+      const encoded = await encodeTexture(image, format, quality, textureUsage);
+      texture.setImage(encoded.data).setMimeType(encoded.mimeType);
+    }
+
+    const uri = texture.getURI();
+    if (uri) {
+      const extension = texture.getMimeType() === 'image/ktx2' ? 'ktx2' : texture.getMimeType().split('/')[1];
+      texture.setURI(uri.replace(/\.[^./]+$/, `.${extension === 'jpeg' ? 'jpg' : extension}`));
+    }
+  }
+
+  const mimeTypes = textures.map((texture) => texture.getMimeType());
+  if (mimeTypes.includes('image/webp')) {
+    document.createExtension(EXTTextureWebP).setRequired(true);
+  }
+  if (mimeTypes.includes('image/ktx2')) {
+    document.createExtension(KHRTextureBasisu).setRequired(true);
+  }
+
+  onProgress?.('Textures processed', 100);
+
+  return document;
+}
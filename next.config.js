@@ -1,7 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
-    serverComponentsExternalPackages: ['@google/generative-ai'],
+    instrumentationHook: true,
+    serverComponentsExternalPackages: ['@google/generative-ai', 'better-sqlite3'],
   },
   images: {
     remotePatterns: [